@@ -2,9 +2,16 @@ import { describe, expect, it, vi, beforeEach } from 'vitest';
 import {
   createSymbolSearchCache,
   normalizeSymbolSearchKeyword,
+  parseCompanyOverviewResponse,
+  parseDailySeriesCsv,
+  parseDailySeriesResponse,
+  parseGlobalQuoteResponse,
   parseSymbolSearchResponse,
   type SymbolSearchMatch,
-} from './alphaVantage';
+} from './alphaVantage.js';
+import companyOverviewFixture from './fixtures/companyOverview.IBM.json';
+import globalQuoteFixture from './fixtures/globalQuote.IBM.json';
+import rateLimitNote from './fixtures/rateLimitNote.json';
 
 describe('normalizeSymbolSearchKeyword', () => {
   it('trims whitespace and lowercases the keyword', () => {
@@ -145,3 +152,199 @@ describe('parseSymbolSearchResponse', () => {
     expect(result.message).toBe('Unexpected response from Alpha Vantage.');
   });
 });
+
+describe('parseDailySeriesResponse', () => {
+  it('parses daily bars sorted from oldest to newest', () => {
+    const result = parseDailySeriesResponse({
+      'Meta Data': { '2. Symbol': 'IBM', '3. Last Refreshed': '2024-03-08' },
+      'Time Series (Daily)': {
+        '2024-03-08': {
+          '1. open': '196.0600',
+          '2. high': '197.7700',
+          '3. low': '195.5700',
+          '4. close': '195.9500',
+          '5. volume': '3349282',
+        },
+        '2024-03-07': {
+          '1. open': '197.5800',
+          '2. high': '198.7300',
+          '3. low': '196.1400',
+          '4. close': '196.5400',
+        },
+        'not-a-date': { '1. open': '1' },
+        '2024-03-06': { '1. open': 'None', '2. high': '1', '3. low': '1', '4. close': '1' },
+      },
+    });
+
+    expect(result.symbol).toBe('IBM');
+    expect(result.lastRefreshed).toBe('2024-03-08');
+    expect(result.bars).toEqual([
+      { date: '2024-03-07', open: 197.58, high: 198.73, low: 196.14, close: 196.54 },
+      {
+        date: '2024-03-08',
+        open: 196.06,
+        high: 197.77,
+        low: 195.57,
+        close: 195.95,
+        volume: 3349282,
+      },
+    ]);
+    expect(result.isCacheable).toBe(true);
+    expect(result.message).toBeUndefined();
+  });
+
+  it('handles rate limit information responses', () => {
+    const result = parseDailySeriesResponse({ Information: 'API rate limit reached.' });
+
+    expect(result.bars).toEqual([]);
+    expect(result.isRateLimited).toBe(true);
+    expect(result.isCacheable).toBe(false);
+    expect(result.message).toBe('API rate limit reached.');
+  });
+
+  it('returns an error message when the series is missing', () => {
+    const result = parseDailySeriesResponse({ 'Meta Data': {} });
+
+    expect(result.bars).toEqual([]);
+    expect(result.isCacheable).toBe(false);
+    expect(result.message).toBe('Unexpected response from Alpha Vantage.');
+  });
+});
+
+describe('parseGlobalQuoteResponse', () => {
+  it('parses a recorded quote including the percent change string', () => {
+    const result = parseGlobalQuoteResponse(globalQuoteFixture);
+
+    expect(result.quote).toEqual({
+      symbol: 'IBM',
+      price: 195.95,
+      open: 196.06,
+      high: 197.77,
+      low: 195.57,
+      volume: 3349282,
+      latestTradingDay: '2024-03-08',
+      previousClose: 196.54,
+      change: -0.59,
+      changePercent: -0.3002,
+    });
+    expect(result.isRateLimited).toBe(false);
+    expect(result.isCacheable).toBe(true);
+    expect(result.message).toBeUndefined();
+  });
+
+  it('omits missing or placeholder fields', () => {
+    const result = parseGlobalQuoteResponse({
+      'Global Quote': { '01. symbol': 'XYZ', '05. price': '10.5', '10. change percent': 'None' },
+    });
+
+    expect(result.quote).toEqual({ symbol: 'XYZ', price: 10.5 });
+  });
+
+  it('reports an empty quote for unknown symbols', () => {
+    const result = parseGlobalQuoteResponse({ 'Global Quote': {} });
+
+    expect(result.quote).toBeNull();
+    expect(result.isRateLimited).toBe(false);
+    expect(result.isCacheable).toBe(false);
+    expect(result.message).toBe('No quote data is available for this symbol.');
+  });
+
+  it('handles rate limit note responses', () => {
+    const result = parseGlobalQuoteResponse(rateLimitNote);
+
+    expect(result.quote).toBeNull();
+    expect(result.isRateLimited).toBe(true);
+    expect(result.message).toBe(rateLimitNote.Note);
+  });
+
+  it('returns an error message for unexpected structures', () => {
+    const result = parseGlobalQuoteResponse('not json');
+
+    expect(result.quote).toBeNull();
+    expect(result.isCacheable).toBe(false);
+    expect(result.message).toBe('Unexpected response from Alpha Vantage.');
+  });
+});
+
+describe('parseCompanyOverviewResponse', () => {
+  it('parses a recorded overview and drops placeholder values', () => {
+    const result = parseCompanyOverviewResponse(companyOverviewFixture);
+
+    expect(result.overview).toEqual({
+      symbol: 'IBM',
+      name: 'International Business Machines',
+      description:
+        'International Business Machines Corporation (IBM) is an American multinational technology company.',
+      exchange: 'NYSE',
+      currency: 'USD',
+      country: 'USA',
+      sector: 'TECHNOLOGY',
+      industry: 'COMPUTER & OFFICE EQUIPMENT',
+      marketCapitalization: 179672490000,
+      peRatio: 22.11,
+      dividendYield: 0.0339,
+      eps: 8.86,
+      beta: 0.711,
+      fiftyTwoWeekHigh: 199.18,
+      fiftyTwoWeekLow: 120.55,
+    });
+    expect(result.isCacheable).toBe(true);
+    expect(result.message).toBeUndefined();
+  });
+
+  it('treats "None" numeric and text fields as missing', () => {
+    const result = parseCompanyOverviewResponse({
+      Symbol: 'NEW',
+      Name: 'Newly Listed Co.',
+      Sector: 'None',
+      PERatio: 'None',
+      DividendYield: '0%',
+    });
+
+    expect(result.overview).toEqual({ symbol: 'NEW', name: 'Newly Listed Co.', dividendYield: 0 });
+  });
+
+  it('reports an empty overview for unknown symbols', () => {
+    const result = parseCompanyOverviewResponse({});
+
+    expect(result.overview).toBeNull();
+    expect(result.isCacheable).toBe(false);
+    expect(result.message).toBe('No company overview is available for this symbol.');
+  });
+
+  it('handles rate limit information responses', () => {
+    const result = parseCompanyOverviewResponse({ Information: 'API rate limit reached.' });
+
+    expect(result.overview).toBeNull();
+    expect(result.isRateLimited).toBe(true);
+    expect(result.message).toBe('API rate limit reached.');
+  });
+});
+
+describe('parseDailySeriesCsv', () => {
+  it('parses csv rows using the header order', () => {
+    const result = parseDailySeriesCsv(
+      'timestamp,open,high,low,close,volume\n2024-03-08,10,12,9,11,100\n2024-03-07,9,10,8,10,90\n',
+    );
+
+    expect(result.bars).toEqual([
+      { date: '2024-03-07', open: 9, high: 10, low: 8, close: 10, volume: 90 },
+      { date: '2024-03-08', open: 10, high: 12, low: 9, close: 11, volume: 100 },
+    ]);
+    expect(result.isCacheable).toBe(true);
+  });
+
+  it('routes JSON error bodies through the JSON parser', () => {
+    const result = parseDailySeriesCsv(JSON.stringify(rateLimitNote));
+
+    expect(result.isRateLimited).toBe(true);
+    expect(result.message).toBe(rateLimitNote.Note);
+  });
+
+  it('rejects csv without the expected columns', () => {
+    const result = parseDailySeriesCsv('date,price\n2024-03-08,10');
+
+    expect(result.bars).toEqual([]);
+    expect(result.message).toBe('Unexpected response from Alpha Vantage.');
+  });
+});
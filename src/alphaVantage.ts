@@ -14,6 +14,69 @@ export interface ParsedSymbolSearchResponse {
   isCacheable: boolean;
 }
 
+export interface GlobalQuote {
+  symbol: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  latestTradingDay?: string;
+  previousClose?: number;
+  change?: number;
+  changePercent?: number;
+}
+
+export interface ParsedGlobalQuoteResponse {
+  quote: GlobalQuote | null;
+  message?: string;
+  isRateLimited: boolean;
+  isCacheable: boolean;
+}
+
+export interface CompanyOverview {
+  symbol: string;
+  name: string;
+  description?: string;
+  exchange?: string;
+  currency?: string;
+  country?: string;
+  sector?: string;
+  industry?: string;
+  marketCapitalization?: number;
+  peRatio?: number;
+  dividendYield?: number;
+  eps?: number;
+  beta?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+}
+
+export interface ParsedCompanyOverviewResponse {
+  overview: CompanyOverview | null;
+  message?: string;
+  isRateLimited: boolean;
+  isCacheable: boolean;
+}
+
+export interface DailyBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface ParsedDailySeriesResponse {
+  symbol?: string;
+  lastRefreshed?: string;
+  bars: DailyBar[];
+  message?: string;
+  isRateLimited: boolean;
+  isCacheable: boolean;
+}
+
 export interface SymbolSearchCacheOptions {
   ttlMs?: number;
   maxEntries?: number;
@@ -29,6 +92,10 @@ export interface SymbolSearchCache {
 
 const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
 const DEFAULT_CACHE_MAX_ENTRIES = 50;
+const UNEXPECTED_RESPONSE_MESSAGE = 'Unexpected response from Alpha Vantage.';
+const DAILY_SERIES_KEY = 'Time Series (Daily)';
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MISSING_VALUE_MARKERS = new Set(['none', '-', 'n/a']);
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
   typeof value === 'object' && value !== null;
@@ -55,6 +122,22 @@ const toNumber = (value: unknown): number | undefined => {
   return undefined;
 };
 
+/**
+ * Like `toCleanString`, but also treats Alpha Vantage placeholders such as "None" as missing.
+ */
+const toFieldString = (value: unknown): string | undefined => {
+  const cleaned = toCleanString(value);
+  return cleaned && !MISSING_VALUE_MARKERS.has(cleaned.toLowerCase()) ? cleaned : undefined;
+};
+
+const toPercent = (value: unknown): number | undefined => {
+  if (typeof value === 'string') {
+    return toNumber(value.replace('%', ''));
+  }
+
+  return toNumber(value);
+};
+
 const cloneMatches = (matches: SymbolSearchMatch[]): SymbolSearchMatch[] => {
   return matches.map((match) => ({ ...match }));
 };
@@ -208,42 +291,45 @@ const parseSymbolSearchMatch = (value: unknown): SymbolSearchMatch | null => {
   return match;
 };
 
-export const parseSymbolSearchResponse = (value: unknown): ParsedSymbolSearchResponse => {
+interface ResponseFailure {
+  message: string;
+  isRateLimited: boolean;
+}
+
+/**
+ * Detects the Note/Information/Error Message payloads Alpha Vantage returns in place of data.
+ */
+const detectResponseFailure = (value: unknown): ResponseFailure | null => {
   if (!isRecord(value)) {
-    return {
-      matches: [],
-      message: 'Unexpected response from Alpha Vantage.',
-      isRateLimited: false,
-      isCacheable: false,
-    };
+    return { message: UNEXPECTED_RESPONSE_MESSAGE, isRateLimited: false };
   }
 
   const note = toCleanString(value.Note);
   if (note) {
-    return {
-      matches: [],
-      message: note,
-      isRateLimited: true,
-      isCacheable: false,
-    };
+    return { message: note, isRateLimited: true };
   }
 
   const information = toCleanString(value.Information);
   if (information) {
-    return {
-      matches: [],
-      message: information,
-      isRateLimited: true,
-      isCacheable: false,
-    };
+    return { message: information, isRateLimited: true };
   }
 
   const errorMessage = toCleanString(value['Error Message']);
   if (errorMessage) {
+    return { message: errorMessage, isRateLimited: false };
+  }
+
+  return null;
+};
+
+export const parseSymbolSearchResponse = (value: unknown): ParsedSymbolSearchResponse => {
+  const failure = detectResponseFailure(value);
+
+  if (failure) {
     return {
       matches: [],
-      message: errorMessage,
-      isRateLimited: false,
+      message: failure.message,
+      isRateLimited: failure.isRateLimited,
       isCacheable: false,
     };
   }
@@ -253,7 +339,7 @@ export const parseSymbolSearchResponse = (value: unknown): ParsedSymbolSearchRes
   if (!Array.isArray(rawBestMatches)) {
     return {
       matches: [],
-      message: 'Unexpected response from Alpha Vantage.',
+      message: UNEXPECTED_RESPONSE_MESSAGE,
       isRateLimited: false,
       isCacheable: false,
     };
@@ -270,3 +356,273 @@ export const parseSymbolSearchResponse = (value: unknown): ParsedSymbolSearchRes
     isCacheable: true,
   };
 };
+
+const parseDailyBar = (date: string, value: unknown): DailyBar | null => {
+  if (!ISO_DATE_PATTERN.test(date) || !isRecord(value)) {
+    return null;
+  }
+
+  const open = toNumber(value['1. open']);
+  const high = toNumber(value['2. high']);
+  const low = toNumber(value['3. low']);
+  const close = toNumber(value['4. close']);
+
+  if (
+    typeof open !== 'number' ||
+    typeof high !== 'number' ||
+    typeof low !== 'number' ||
+    typeof close !== 'number'
+  ) {
+    return null;
+  }
+
+  const bar: DailyBar = { date, open, high, low, close };
+  const volume = toNumber(value['5. volume']);
+
+  if (typeof volume === 'number') {
+    bar.volume = volume;
+  }
+
+  return bar;
+};
+
+/**
+ * Parses a TIME_SERIES_DAILY payload into bars sorted from oldest to newest.
+ */
+export const parseDailySeriesResponse = (value: unknown): ParsedDailySeriesResponse => {
+  const failure = detectResponseFailure(value);
+
+  if (failure) {
+    return {
+      bars: [],
+      message: failure.message,
+      isRateLimited: failure.isRateLimited,
+      isCacheable: false,
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+  const rawSeries = record[DAILY_SERIES_KEY];
+
+  if (!isRecord(rawSeries)) {
+    return {
+      bars: [],
+      message: UNEXPECTED_RESPONSE_MESSAGE,
+      isRateLimited: false,
+      isCacheable: false,
+    };
+  }
+
+  const bars = Object.entries(rawSeries)
+    .map(([date, rawBar]) => parseDailyBar(date, rawBar))
+    .filter((bar): bar is DailyBar => Boolean(bar))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const result: ParsedDailySeriesResponse = {
+    bars,
+    message: undefined,
+    isRateLimited: false,
+    isCacheable: true,
+  };
+
+  const metaData = record['Meta Data'];
+
+  if (isRecord(metaData)) {
+    const symbol = toCleanString(metaData['2. Symbol']);
+    const lastRefreshed = toCleanString(metaData['3. Last Refreshed']);
+
+    if (symbol) {
+      result.symbol = symbol;
+    }
+
+    if (lastRefreshed) {
+      result.lastRefreshed = lastRefreshed;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Parses the CSV variant of TIME_SERIES_DAILY (`datatype=csv`), whose header row is
+ * `timestamp,open,high,low,close,volume`. Alpha Vantage still answers errors and rate limits
+ * with JSON in CSV mode, so JSON bodies are routed through `parseDailySeriesResponse`.
+ */
+export const parseDailySeriesCsv = (text: string): ParsedDailySeriesResponse => {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      return parseDailySeriesResponse(JSON.parse(trimmed));
+    } catch {
+      return parseDailySeriesResponse(null);
+    }
+  }
+
+  const [headerLine, ...rows] = trimmed.split(/\r?\n/);
+  const header = headerLine.split(',').map((column) => column.trim().toLowerCase());
+  const dateIndex = header.indexOf('timestamp');
+
+  if (dateIndex < 0 || !['open', 'high', 'low', 'close'].every((name) => header.includes(name))) {
+    return {
+      bars: [],
+      message: UNEXPECTED_RESPONSE_MESSAGE,
+      isRateLimited: false,
+      isCacheable: false,
+    };
+  }
+
+  const bars = rows
+    .map((row) => {
+      const cells = row.split(',').map((cell) => cell.trim());
+      const cell = (name: string): string | undefined => cells[header.indexOf(name)];
+
+      return parseDailyBar(cells[dateIndex] ?? '', {
+        '1. open': cell('open'),
+        '2. high': cell('high'),
+        '3. low': cell('low'),
+        '4. close': cell('close'),
+        '5. volume': cell('volume'),
+      });
+    })
+    .filter((bar): bar is DailyBar => Boolean(bar))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    bars,
+    message: undefined,
+    isRateLimited: false,
+    isCacheable: true,
+  };
+};
+
+/**
+ * Parses a GLOBAL_QUOTE payload. Alpha Vantage answers unknown symbols with an empty
+ * "Global Quote" object, which is reported as a missing quote rather than an error.
+ */
+export const parseGlobalQuoteResponse = (value: unknown): ParsedGlobalQuoteResponse => {
+  const failure = detectResponseFailure(value);
+
+  if (failure) {
+    return {
+      quote: null,
+      message: failure.message,
+      isRateLimited: failure.isRateLimited,
+      isCacheable: false,
+    };
+  }
+
+  const rawQuote = (value as Record<string, unknown>)['Global Quote'];
+
+  if (!isRecord(rawQuote)) {
+    return {
+      quote: null,
+      message: UNEXPECTED_RESPONSE_MESSAGE,
+      isRateLimited: false,
+      isCacheable: false,
+    };
+  }
+
+  const symbol = toFieldString(rawQuote['01. symbol']);
+  const price = toNumber(rawQuote['05. price']);
+
+  if (!symbol || typeof price !== 'number') {
+    return {
+      quote: null,
+      message: 'No quote data is available for this symbol.',
+      isRateLimited: false,
+      isCacheable: false,
+    };
+  }
+
+  const quote: GlobalQuote = { symbol, price };
+  const numericFields: Array<[keyof GlobalQuote, number | undefined]> = [
+    ['open', toNumber(rawQuote['02. open'])],
+    ['high', toNumber(rawQuote['03. high'])],
+    ['low', toNumber(rawQuote['04. low'])],
+    ['volume', toNumber(rawQuote['06. volume'])],
+    ['previousClose', toNumber(rawQuote['08. previous close'])],
+    ['change', toNumber(rawQuote['09. change'])],
+    ['changePercent', toPercent(rawQuote['10. change percent'])],
+  ];
+
+  numericFields.forEach(([field, fieldValue]) => {
+    if (typeof fieldValue === 'number') {
+      Object.assign(quote, { [field]: fieldValue });
+    }
+  });
+
+  const latestTradingDay = toFieldString(rawQuote['07. latest trading day']);
+
+  if (latestTradingDay) {
+    quote.latestTradingDay = latestTradingDay;
+  }
+
+  return {
+    quote,
+    message: undefined,
+    isRateLimited: false,
+    isCacheable: true,
+  };
+};
+
+/**
+ * Parses an OVERVIEW payload, dropping "None" placeholders so optional fields are simply absent.
+ */
+export const parseCompanyOverviewResponse = (value: unknown): ParsedCompanyOverviewResponse => {
+  const failure = detectResponseFailure(value);
+
+  if (failure) {
+    return {
+      overview: null,
+      message: failure.message,
+      isRateLimited: failure.isRateLimited,
+      isCacheable: false,
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+  const symbol = toFieldString(record.Symbol);
+  const name = toFieldString(record.Name);
+
+  if (!symbol || !name) {
+    return {
+      overview: null,
+      message: 'No company overview is available for this symbol.',
+      isRateLimited: false,
+      isCacheable: false,
+    };
+  }
+
+  const overview: CompanyOverview = { symbol, name };
+  const textFields: Array<[keyof CompanyOverview, string | undefined]> = [
+    ['description', toFieldString(record.Description)],
+    ['exchange', toFieldString(record.Exchange)],
+    ['currency', toFieldString(record.Currency)],
+    ['country', toFieldString(record.Country)],
+    ['sector', toFieldString(record.Sector)],
+    ['industry', toFieldString(record.Industry)],
+  ];
+  const numericFields: Array<[keyof CompanyOverview, number | undefined]> = [
+    ['marketCapitalization', toNumber(record.MarketCapitalization)],
+    ['peRatio', toNumber(record.PERatio)],
+    ['dividendYield', toPercent(record.DividendYield)],
+    ['eps', toNumber(record.EPS)],
+    ['beta', toNumber(record.Beta)],
+    ['fiftyTwoWeekHigh', toNumber(record['52WeekHigh'])],
+    ['fiftyTwoWeekLow', toNumber(record['52WeekLow'])],
+  ];
+
+  [...textFields, ...numericFields].forEach(([field, fieldValue]) => {
+    if (fieldValue !== undefined) {
+      Object.assign(overview, { [field]: fieldValue });
+    }
+  });
+
+  return {
+    overview,
+    message: undefined,
+    isRateLimited: false,
+    isCacheable: true,
+  };
+};
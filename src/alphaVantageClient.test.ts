@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseGlobalQuoteResponse } from './alphaVantage.js';
+import { createAlphaVantageClient, type FetchLike } from './alphaVantageClient.js';
+import globalQuoteFixture from './fixtures/globalQuote.IBM.json';
+import rateLimitNote from './fixtures/rateLimitNote.json';
+
+const createFakeClock = () => {
+  let current = 0;
+  return {
+    now: () => current,
+    sleep: vi.fn(async (ms: number) => {
+      current += ms;
+    }),
+  };
+};
+
+const createFetch = (respond: (url: URL) => unknown = () => globalQuoteFixture) =>
+  vi.fn<Parameters<FetchLike>, ReturnType<FetchLike>>(async (url) => ({
+    json: async () => respond(new URL(url)),
+  }));
+
+describe('createAlphaVantageClient', () => {
+  it('builds request urls and parses typed results', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch();
+    const client = createAlphaVantageClient({ apiKey: 'demo', fetch, ...clock });
+
+    const result = await client.getGlobalQuote('IBM');
+
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('https://www.alphavantage.co/query');
+    expect(url.searchParams.get('function')).toBe('GLOBAL_QUOTE');
+    expect(url.searchParams.get('symbol')).toBe('IBM');
+    expect(url.searchParams.get('apikey')).toBe('demo');
+    expect(result.quote?.price).toBe(195.95);
+  });
+
+  it('deduplicates identical in-flight requests', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch();
+    const client = createAlphaVantageClient({ apiKey: 'demo', fetch, ...clock });
+
+    const [first, second] = await Promise.all([
+      client.getGlobalQuote('IBM'),
+      client.getGlobalQuote('IBM', 'interactive'),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('runs interactive requests ahead of background polling', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch((url) =>
+      url.searchParams.get('function') === 'SYMBOL_SEARCH'
+        ? { bestMatches: [] }
+        : globalQuoteFixture,
+    );
+    const client = createAlphaVantageClient({ apiKey: 'demo', fetch, ...clock });
+
+    await Promise.all([
+      client.getGlobalQuote('IBM'),
+      client.getDailySeries('IBM'),
+      client.searchSymbols('apple'),
+    ]);
+
+    const functions = fetch.mock.calls.map(([url]) => new URL(url).searchParams.get('function'));
+    expect(functions).toEqual(['SYMBOL_SEARCH', 'GLOBAL_QUOTE', 'TIME_SERIES_DAILY']);
+  });
+
+  it('waits for the per-minute budget to free up', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch();
+    const client = createAlphaVantageClient({
+      apiKey: 'demo',
+      fetch,
+      callsPerMinute: 2,
+      ...clock,
+    });
+
+    await Promise.all(['A', 'B', 'C'].map((symbol) => client.getGlobalQuote(symbol)));
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(clock.sleep).toHaveBeenCalledWith(60 * 1000);
+    expect(client.getUsage()).toMatchObject({ queued: 0, callsLastMinute: 1, callsLastDay: 3 });
+  });
+
+  it('answers with a rate-limited result once the daily budget is spent', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch();
+    const client = createAlphaVantageClient({ apiKey: 'demo', fetch, callsPerDay: 1, ...clock });
+
+    await client.getGlobalQuote('A');
+    const exhausted = await client.getGlobalQuote('B');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(exhausted.quote).toBeNull();
+    expect(exhausted.isRateLimited).toBe(true);
+    expect(exhausted.message).toBe('Daily Alpha Vantage request budget exhausted.');
+  });
+
+  it('backs off after a rate-limited response', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch((url) =>
+      url.searchParams.get('symbol') === 'A' ? rateLimitNote : globalQuoteFixture,
+    );
+    const client = createAlphaVantageClient({
+      apiKey: 'demo',
+      fetch,
+      backoffMs: 30 * 1000,
+      ...clock,
+    });
+
+    const limited = await client.request('GLOBAL_QUOTE', { symbol: 'A' }, parseGlobalQuoteResponse);
+    expect(limited.isRateLimited).toBe(true);
+    expect(client.getUsage().backoffUntil).toBe(30 * 1000);
+
+    const next = await client.getGlobalQuote('B');
+
+    expect(clock.sleep).toHaveBeenCalledWith(30 * 1000);
+    expect(next.quote?.symbol).toBe('IBM');
+  });
+
+  it('rejects only the failed request when fetch throws', async () => {
+    const clock = createFakeClock();
+    const fetch = createFetch((url) => {
+      if (url.searchParams.get('symbol') === 'A') {
+        throw new Error('offline');
+      }
+      return globalQuoteFixture;
+    });
+    const client = createAlphaVantageClient({ apiKey: 'demo', fetch, ...clock });
+
+    const failed = client.getGlobalQuote('A');
+    const succeeded = client.getGlobalQuote('B');
+
+    await expect(failed).rejects.toThrow('offline');
+    await expect(succeeded).resolves.toMatchObject({ isCacheable: true });
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  parseCompanyOverviewResponse,
+  parseDailySeriesResponse,
+  parseGlobalQuoteResponse,
+  parseSymbolSearchResponse,
+  type ParsedCompanyOverviewResponse,
+  type ParsedDailySeriesResponse,
+  type ParsedGlobalQuoteResponse,
+  type ParsedSymbolSearchResponse,
+} from './alphaVantage.js';
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface FetchResponseLike {
+  json(): Promise<unknown>;
+}
+
+export type FetchLike = (url: string) => Promise<FetchResponseLike>;
+
+export interface RateLimitAware {
+  isRateLimited: boolean;
+}
+
+export type ResponseParser<T extends RateLimitAware> = (value: unknown) => T;
+
+export interface AlphaVantageClientOptions {
+  apiKey: string;
+  fetch?: FetchLike;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  baseUrl?: string;
+  callsPerMinute?: number;
+  callsPerDay?: number;
+  backoffMs?: number;
+}
+
+export interface AlphaVantageClientUsage {
+  queued: number;
+  callsLastMinute: number;
+  callsLastDay: number;
+  backoffUntil: number;
+}
+
+export interface AlphaVantageClient {
+  request<T extends RateLimitAware>(
+    fn: string,
+    params: Record<string, string>,
+    parse: ResponseParser<T>,
+    priority?: RequestPriority,
+  ): Promise<T>;
+  searchSymbols(keyword: string): Promise<ParsedSymbolSearchResponse>;
+  getGlobalQuote(symbol: string, priority?: RequestPriority): Promise<ParsedGlobalQuoteResponse>;
+  getCompanyOverview(
+    symbol: string,
+    priority?: RequestPriority,
+  ): Promise<ParsedCompanyOverviewResponse>;
+  getDailySeries(symbol: string, priority?: RequestPriority): Promise<ParsedDailySeriesResponse>;
+  getUsage(): AlphaVantageClientUsage;
+}
+
+interface QueuedRequest {
+  key: string;
+  url: string;
+  priority: RequestPriority;
+  sequence: number;
+  parse: ResponseParser<RateLimitAware>;
+  resolve: (value: RateLimitAware) => void;
+  reject: (reason: unknown) => void;
+}
+
+const DEFAULT_BASE_URL = 'https://www.alphavantage.co/query';
+const DEFAULT_CALLS_PER_MINUTE = 5;
+const DEFAULT_CALLS_PER_DAY = 25;
+const DEFAULT_BACKOFF_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAILY_BUDGET_MESSAGE = 'Daily Alpha Vantage request budget exhausted.';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1,
+};
+
+const toPositiveInteger = (value: number | undefined, fallback: number): number =>
+  typeof value === 'number' && value > 0 ? Math.floor(value) : fallback;
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+const buildRequestKey = (fn: string, params: Record<string, string>): string => {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((name) => `${name}=${params[name]}`)
+    .join('&');
+  return `${fn}?${sortedParams}`;
+};
+
+/**
+ * Creates a client that funnels every Alpha Vantage call through one queue so the free-tier
+ * per-minute and per-day budgets are respected. Identical requests share a single call,
+ * interactive requests jump ahead of background polling, and a rate-limited response pauses
+ * the queue for `backoffMs`. Budgets are tracked over rolling windows of the injected clock.
+ */
+export const createAlphaVantageClient = (
+  options: AlphaVantageClientOptions,
+): AlphaVantageClient => {
+  const fetchImpl: FetchLike = options.fetch ?? ((url) => globalThis.fetch(url));
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? defaultSleep;
+  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+  const callsPerMinute = toPositiveInteger(options.callsPerMinute, DEFAULT_CALLS_PER_MINUTE);
+  const callsPerDay = toPositiveInteger(options.callsPerDay, DEFAULT_CALLS_PER_DAY);
+  const backoffMs =
+    typeof options.backoffMs === 'number' && options.backoffMs >= 0
+      ? options.backoffMs
+      : DEFAULT_BACKOFF_MS;
+
+  const queue: QueuedRequest[] = [];
+  const inFlight = new Map<string, Promise<RateLimitAware>>();
+  let callTimestamps: number[] = [];
+  let backoffUntil = 0;
+  let sequence = 0;
+  let draining = false;
+
+  const pruneCallTimestamps = (currentTime: number): void => {
+    callTimestamps = callTimestamps.filter((timestamp) => timestamp > currentTime - DAY_MS);
+  };
+
+  const countCallsSince = (since: number): number =>
+    callTimestamps.filter((timestamp) => timestamp > since).length;
+
+  const getMinuteDelay = (currentTime: number): number => {
+    const recentCalls = callTimestamps.filter((timestamp) => timestamp > currentTime - MINUTE_MS);
+
+    if (recentCalls.length < callsPerMinute) {
+      return 0;
+    }
+
+    return recentCalls[recentCalls.length - callsPerMinute] + MINUTE_MS - currentTime;
+  };
+
+  const takeNext = (): QueuedRequest | undefined => {
+    let nextIndex = 0;
+
+    queue.forEach((entry, index) => {
+      const best = queue[nextIndex];
+      const rankDifference = PRIORITY_RANK[entry.priority] - PRIORITY_RANK[best.priority];
+
+      if (rankDifference < 0 || (rankDifference === 0 && entry.sequence < best.sequence)) {
+        nextIndex = index;
+      }
+    });
+
+    return queue.splice(nextIndex, 1)[0];
+  };
+
+  const execute = async (entry: QueuedRequest): Promise<void> => {
+    callTimestamps.push(now());
+
+    try {
+      const response = await fetchImpl(entry.url);
+      const parsed = entry.parse(await response.json());
+
+      if (parsed.isRateLimited) {
+        backoffUntil = now() + backoffMs;
+      }
+
+      entry.resolve(parsed);
+    } catch (error) {
+      entry.reject(error);
+    }
+  };
+
+  const processQueue = async (): Promise<void> => {
+    if (queue.length === 0) {
+      return;
+    }
+
+    const currentTime = now();
+    pruneCallTimestamps(currentTime);
+
+    if (callTimestamps.length >= callsPerDay) {
+      queue.splice(0).forEach((entry) => {
+        entry.resolve(entry.parse({ Note: DAILY_BUDGET_MESSAGE }));
+      });
+      return;
+    }
+
+    const delay = Math.max(backoffUntil - currentTime, getMinuteDelay(currentTime));
+
+    if (delay > 0) {
+      await sleep(delay);
+    } else {
+      const next = takeNext();
+
+      if (next) {
+        await execute(next);
+      }
+    }
+
+    await processQueue();
+  };
+
+  const drain = async (): Promise<void> => {
+    if (draining) {
+      return;
+    }
+
+    draining = true;
+
+    try {
+      await processQueue();
+    } finally {
+      draining = false;
+    }
+
+    // A request may have been queued while the previous pass was finishing up.
+    if (queue.length > 0) {
+      await drain();
+    }
+  };
+
+  const request = <T extends RateLimitAware>(
+    fn: string,
+    params: Record<string, string>,
+    parse: ResponseParser<T>,
+    priority: RequestPriority = 'background',
+  ): Promise<T> => {
+    const key = buildRequestKey(fn, params);
+    const existing = inFlight.get(key);
+
+    if (existing) {
+      const queued = queue.find((entry) => entry.key === key);
+
+      if (queued && PRIORITY_RANK[priority] < PRIORITY_RANK[queued.priority]) {
+        queued.priority = priority;
+      }
+
+      return existing as Promise<T>;
+    }
+
+    const searchParams = new URLSearchParams({ function: fn, ...params, apikey: options.apiKey });
+    const promise = new Promise<RateLimitAware>((resolve, reject) => {
+      sequence += 1;
+      queue.push({
+        key,
+        url: `${baseUrl}?${searchParams.toString()}`,
+        priority,
+        sequence,
+        parse,
+        resolve,
+        reject,
+      });
+    });
+
+    const release = (): void => {
+      inFlight.delete(key);
+    };
+
+    promise.then(release, release);
+    inFlight.set(key, promise);
+    // Defer draining so requests issued in the same tick are ordered by priority.
+    Promise.resolve().then(drain);
+
+    return promise as Promise<T>;
+  };
+
+  return {
+    request,
+    searchSymbols: (keyword) =>
+      request(
+        'SYMBOL_SEARCH',
+        { keywords: keyword.trim() },
+        parseSymbolSearchResponse,
+        'interactive',
+      ),
+    getGlobalQuote: (symbol, priority = 'background') =>
+      request('GLOBAL_QUOTE', { symbol }, parseGlobalQuoteResponse, priority),
+    getCompanyOverview: (symbol, priority = 'interactive') =>
+      request('OVERVIEW', { symbol }, parseCompanyOverviewResponse, priority),
+    getDailySeries: (symbol, priority = 'background') =>
+      request('TIME_SERIES_DAILY', { symbol }, parseDailySeriesResponse, priority),
+    getUsage: () => {
+      const currentTime = now();
+      pruneCallTimestamps(currentTime);
+
+      return {
+        queued: queue.length,
+        callsLastMinute: countCallsSince(currentTime - MINUTE_MS),
+        callsLastDay: callTimestamps.length,
+        backoffUntil,
+      };
+    },
+  };
+};
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CURRENT_SCHEMA_VERSION,
+  DEFAULT_USERNAME,
+  MAX_BACKUPS,
+  STORAGE_KEYS,
+  createAppRepository,
+} from './appStorage.js';
+import { createMemoryStorageBackend } from './marketDataCache.js';
+import { type Prediction } from './prediction.js';
+
+const prediction: Prediction = {
+  id: 1,
+  symbol: 'AAPL',
+  prediction: 'up',
+  period: 'day',
+  madeAt: '2024-01-01T00:00:00.000Z',
+  targetDate: '2024-01-02',
+  openPrice: 100,
+  closePrice: 110,
+  status: 'resolved',
+  user: 'Alice',
+};
+
+const createClock = (start = Date.parse('2024-05-01T12:00:00.000Z')) => {
+  let current = start;
+  return () => {
+    current += 1000;
+    return new Date(current);
+  };
+};
+
+describe('createAppRepository', () => {
+  it('starts an empty store at the latest schema with defaults', async () => {
+    const backend = createMemoryStorageBackend();
+    const repository = createAppRepository({ backend });
+
+    const result = await repository.load();
+
+    expect(result).toEqual({
+      state: {
+        predictions: [],
+        users: {},
+        currentUser: DEFAULT_USERNAME,
+        apiKey: '',
+        profiles: { profiles: [], activeProfileId: null },
+      },
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      migratedFrom: null,
+      recovered: [],
+    });
+    expect(await repository.listBackups()).toEqual([]);
+  });
+
+  it('migrates unversioned legacy data and backs up the original values', async () => {
+    const backend = createMemoryStorageBackend();
+    const legacyUsers = JSON.stringify({ Alice: { predictions: [prediction] }, '': {} });
+    await backend.setItem(STORAGE_KEYS.predictions, JSON.stringify([prediction, { id: 'x' }]));
+    await backend.setItem(STORAGE_KEYS.users, legacyUsers);
+    await backend.setItem(STORAGE_KEYS.currentUser, '  Alice ');
+    await backend.setItem(STORAGE_KEYS.apiKey, ' KEY 123 ');
+
+    const repository = createAppRepository({ backend, now: createClock() });
+    const result = await repository.load();
+
+    expect(result.migratedFrom).toBe(0);
+    expect(result.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(result.state.predictions).toHaveLength(1);
+    expect(Object.keys(result.state.users)).toEqual(['Alice']);
+    expect(result.state.users.Alice.updatedAt).toEqual(expect.any(String));
+    expect(result.state.currentUser).toBe('Alice');
+    expect(result.state.apiKey).toBe('KEY123');
+    expect(result.state.profiles.profiles).toEqual([
+      expect.objectContaining({ displayName: 'Alice', apiKey: 'KEY123' }),
+    ]);
+    expect(result.state.profiles.activeProfileId).toBe(result.state.profiles.profiles[0].id);
+    expect(await backend.getItem(STORAGE_KEYS.schemaVersion)).toBe(String(CURRENT_SCHEMA_VERSION));
+    expect(await backend.getItem(STORAGE_KEYS.apiKey)).toBe('KEY123');
+
+    const backups = await repository.listBackups();
+    expect(backups.map((backup) => [backup.sourceKey, backup.reason, backup.fromVersion])).toEqual([
+      [STORAGE_KEYS.predictions, 'migration', 0],
+      [STORAGE_KEYS.users, 'migration', 0],
+      [STORAGE_KEYS.currentUser, 'migration', 0],
+    ]);
+    expect(await backend.getItem(backups[1].key)).toBe(legacyUsers);
+
+    const reloaded = await repository.load();
+    expect(reloaded.migratedFrom).toBeNull();
+    expect(reloaded.state).toEqual(result.state);
+  });
+
+  it('runs custom migrations in version order from the stored version', async () => {
+    const backend = createMemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.schemaVersion, '1');
+    await backend.setItem(STORAGE_KEYS.currentUser, 'alice');
+
+    const repository = createAppRepository({
+      backend,
+      migrations: [
+        { version: 3, migrate: (state) => ({ ...state, currentUser: `${state.currentUser}!` }) },
+        {
+          version: 1,
+          migrate: () => ({
+            predictions: [],
+            users: {},
+            currentUser: '',
+            apiKey: '',
+            profiles: {},
+          }),
+        },
+        {
+          version: 2,
+          migrate: (state) => ({ ...state, currentUser: state.currentUser.toUpperCase() }),
+        },
+      ],
+    });
+    const result = await repository.load();
+
+    expect(result.migratedFrom).toBe(1);
+    expect(result.schemaVersion).toBe(3);
+    expect(result.state.currentUser).toBe('ALICE!');
+  });
+
+  it('gives local players in schema 1 data a profile, but not imported friends', async () => {
+    const backend = createMemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.schemaVersion, '1');
+    await backend.setItem(
+      STORAGE_KEYS.predictions,
+      JSON.stringify([prediction, { ...prediction, id: 2, user: 'Bob' }]),
+    );
+    await backend.setItem(STORAGE_KEYS.users, JSON.stringify({ Carol: { predictions: [] } }));
+    await backend.setItem(STORAGE_KEYS.currentUser, 'Bob');
+    await backend.setItem(STORAGE_KEYS.apiKey, 'KEY');
+
+    const repository = createAppRepository({ backend });
+    const { state, migratedFrom } = await repository.load();
+    const [bob, alice] = state.profiles.profiles;
+
+    expect(migratedFrom).toBe(1);
+    expect(state.profiles.profiles.map((profile) => profile.displayName)).toEqual(['Bob', 'Alice']);
+    expect(Object.keys(state.users)).toEqual(['Carol']);
+    expect(state.profiles.activeProfileId).toBe(bob.id);
+    expect([bob.apiKey, alice.apiKey]).toEqual(['KEY', '']);
+    expect(JSON.parse((await backend.getItem(STORAGE_KEYS.profiles)) ?? '')).toEqual(
+      state.profiles,
+    );
+  });
+
+  it('backs up and resets corrupt values instead of throwing', async () => {
+    const backend = createMemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.schemaVersion, String(CURRENT_SCHEMA_VERSION));
+    await backend.setItem(STORAGE_KEYS.predictions, '[{"id":1,');
+    await backend.setItem(STORAGE_KEYS.users, '[]');
+
+    const repository = createAppRepository({ backend, now: createClock() });
+    const result = await repository.load();
+
+    expect(result.recovered).toEqual([STORAGE_KEYS.predictions, STORAGE_KEYS.users]);
+    expect(result.state.predictions).toEqual([]);
+    expect(result.state.users).toEqual({});
+    expect(await backend.getItem(STORAGE_KEYS.predictions)).toBe('[]');
+
+    const [corruptPredictions] = await repository.listBackups();
+    expect(corruptPredictions.reason).toBe('corrupt');
+    expect(await backend.getItem(corruptPredictions.key)).toBe('[{"id":1,');
+
+    expect(await repository.restoreBackup(corruptPredictions.key)).toBe(true);
+    expect(await backend.getItem(STORAGE_KEYS.predictions)).toBe('[{"id":1,');
+    expect(await repository.restoreBackup('missing')).toBe(false);
+  });
+
+  it('keeps only the newest backups', async () => {
+    const backend = createMemoryStorageBackend();
+    await backend.setItem(STORAGE_KEYS.schemaVersion, String(CURRENT_SCHEMA_VERSION));
+    const repository = createAppRepository({ backend, now: createClock() });
+
+    await Array.from({ length: MAX_BACKUPS + 2 }).reduce<Promise<unknown>>(
+      (chain, _, index) =>
+        chain.then(async () => {
+          await backend.setItem(STORAGE_KEYS.predictions, `broken ${index}`);
+          return repository.load();
+        }),
+      Promise.resolve(),
+    );
+
+    const backups = await repository.listBackups();
+    expect(backups).toHaveLength(MAX_BACKUPS);
+    expect(await backend.getItem(backups[0].key)).toBe('broken 2');
+  });
+
+  it('saves each value under its legacy key', async () => {
+    const backend = createMemoryStorageBackend();
+    const repository = createAppRepository({ backend });
+
+    await repository.savePredictions([prediction]);
+    await repository.saveCurrentUser('   ');
+    await repository.saveApiKey(' abc ');
+
+    expect(JSON.parse((await backend.getItem(STORAGE_KEYS.predictions)) ?? '')).toEqual([
+      prediction,
+    ]);
+    expect(await backend.getItem(STORAGE_KEYS.currentUser)).toBe(DEFAULT_USERNAME);
+    expect(await backend.getItem(STORAGE_KEYS.apiKey)).toBe('abc');
+
+    await repository.saveApiKey('');
+    expect(await backend.getItem(STORAGE_KEYS.apiKey)).toBeNull();
+  });
+});
@@ -0,0 +1,321 @@
+import { type CacheStorageBackend } from './marketDataCache.js';
+import {
+  normalizeUsers,
+  sanitizeUserEntry,
+  type LeagueUsers,
+  type Prediction,
+} from './prediction.js';
+import { createProfilesFromUsernames, sanitizeProfileBook, type ProfileBook } from './profiles.js';
+
+/** Keys the app has always used, kept so existing installs load without a migration gap. */
+export const STORAGE_KEYS = {
+  predictions: 'stockPredictions',
+  users: 'predictionUsers',
+  currentUser: 'currentPredictionUser',
+  apiKey: 'alphaVantageApiKey',
+  profiles: 'predictionProfiles',
+  schemaVersion: 'storageSchemaVersion',
+  backups: 'storageBackups',
+} as const;
+
+export const CURRENT_SCHEMA_VERSION = 2;
+export const DEFAULT_USERNAME = 'Guest User';
+export const MAX_BACKUPS = 10;
+
+export interface AppState {
+  predictions: Prediction[];
+  users: LeagueUsers;
+  currentUser: string;
+  apiKey: string;
+  profiles: ProfileBook;
+}
+
+/** Parsed but unvalidated values, as migrations see them. */
+export interface StoredState {
+  predictions: unknown[];
+  users: unknown;
+  currentUser: string;
+  apiKey: string;
+  profiles: unknown;
+}
+
+export interface StorageMigration {
+  /** Schema version this migration produces; it runs on data at `version - 1`. */
+  version: number;
+  migrate(state: StoredState): StoredState;
+}
+
+export type BackupReason = 'corrupt' | 'migration';
+
+export interface StorageBackup {
+  key: string;
+  sourceKey: string;
+  reason: BackupReason;
+  /** Schema version of the data when a migration backup was taken. */
+  fromVersion?: number;
+  createdAt: string;
+}
+
+export interface LoadResult {
+  state: AppState;
+  schemaVersion: number;
+  /** Schema version the data was migrated from, or null when no migration ran. */
+  migratedFrom: number | null;
+  /** Keys whose stored value could not be read and was reset after being backed up. */
+  recovered: string[];
+}
+
+export interface AppRepositoryOptions {
+  backend: CacheStorageBackend;
+  migrations?: StorageMigration[];
+  now?: () => Date;
+}
+
+export interface AppRepository {
+  load(): Promise<LoadResult>;
+  savePredictions(predictions: Prediction[]): Promise<void>;
+  saveUsers(users: LeagueUsers): Promise<void>;
+  saveCurrentUser(username: string): Promise<void>;
+  /** Saving an empty key removes it. */
+  saveApiKey(apiKey: string): Promise<void>;
+  saveProfiles(profiles: ProfileBook): Promise<void>;
+  listBackups(): Promise<StorageBackup[]>;
+  /** Writes a backup back over the key it came from; false when the backup is gone. */
+  restoreBackup(backupKey: string): Promise<boolean>;
+}
+
+const sanitizePredictions = (predictions: unknown[]): Prediction[] =>
+  predictions.flatMap((prediction) => {
+    const user =
+      prediction && typeof (prediction as Prediction).user === 'string'
+        ? (prediction as Prediction).user
+        : DEFAULT_USERNAME;
+    return sanitizeUserEntry(user, { predictions: [prediction as Prediction] }).predictions;
+  });
+
+const cleanApiKey = (apiKey: string): string => apiKey.replace(/\s+/g, '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const toAppState = (state: StoredState): AppState => ({
+  predictions: sanitizePredictions(state.predictions),
+  users: normalizeUsers(state.users).normalizedUsers,
+  currentUser: state.currentUser.trim() || DEFAULT_USERNAME,
+  apiKey: cleanApiKey(state.apiKey),
+  profiles: sanitizeProfileBook(state.profiles),
+});
+
+/**
+ * Gives the current user and every owner of a local prediction a profile. Leaderboard users
+ * are left out: they include friends imported from other devices, who are not local players.
+ */
+const addProfiles = (state: StoredState): StoredState => {
+  const appState = toAppState(state);
+
+  if (appState.profiles.profiles.length > 0) {
+    return appState;
+  }
+
+  const usernames = appState.predictions.map((prediction) => prediction.user);
+  return {
+    ...appState,
+    profiles: createProfilesFromUsernames(usernames, appState.currentUser, appState.apiKey),
+  };
+};
+
+/**
+ * Schema 1 takes the untyped data written by earlier versions of the page and runs it through
+ * the same sanitizers the league merge uses. Schema 2 adds profiles.
+ */
+export const DEFAULT_MIGRATIONS: StorageMigration[] = [
+  { version: 1, migrate: toAppState },
+  { version: 2, migrate: addProfiles },
+];
+
+export const createAppRepository = (options: AppRepositoryOptions): AppRepository => {
+  const { backend } = options;
+  const migrations = [...(options.migrations ?? DEFAULT_MIGRATIONS)].sort(
+    (a, b) => a.version - b.version,
+  );
+  const latestVersion = migrations.reduce(
+    (latest, migration) => Math.max(latest, migration.version),
+    0,
+  );
+  const now = options.now ?? (() => new Date());
+
+  const listBackups = async (): Promise<StorageBackup[]> => {
+    try {
+      const parsed = JSON.parse((await backend.getItem(STORAGE_KEYS.backups)) ?? '[]');
+      return Array.isArray(parsed) ? (parsed as StorageBackup[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  /** Copies a raw value aside, keeping only the newest `MAX_BACKUPS` copies. */
+  const backup = async (
+    sourceKey: string,
+    raw: string,
+    reason: BackupReason,
+    fromVersion?: number,
+  ) => {
+    const createdAt = now().toISOString();
+    const entry: StorageBackup = {
+      key: `${sourceKey}.${reason}.${createdAt}`,
+      sourceKey,
+      reason,
+      createdAt,
+    };
+
+    if (fromVersion !== undefined) {
+      entry.fromVersion = fromVersion;
+    }
+
+    const backups = [...(await listBackups()), entry];
+    const expired = backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS));
+
+    await backend.setItem(entry.key, raw);
+    await Promise.all(expired.map((expiredBackup) => backend.removeItem(expiredBackup.key)));
+    await backend.setItem(STORAGE_KEYS.backups, JSON.stringify(backups.slice(expired.length)));
+  };
+
+  const readJson = async <T>(
+    key: string,
+    isValid: (value: unknown) => value is T,
+    fallback: T,
+    recovered: string[],
+  ): Promise<T> => {
+    const raw = await backend.getItem(key);
+
+    if (raw === null) {
+      return fallback;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+
+      if (isValid(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Fall through to recovery.
+    }
+
+    await backup(key, raw, 'corrupt');
+    await backend.removeItem(key);
+    recovered.push(key);
+    return fallback;
+  };
+
+  const readSchemaVersion = async (): Promise<number | null> => {
+    const raw = await backend.getItem(STORAGE_KEYS.schemaVersion);
+    const version = raw === null ? NaN : Number(raw);
+    return Number.isInteger(version) && version >= 0 ? version : null;
+  };
+
+  const hasLegacyData = async (): Promise<boolean> => {
+    const values = await Promise.all(
+      [STORAGE_KEYS.predictions, STORAGE_KEYS.users, STORAGE_KEYS.currentUser].map((key) =>
+        backend.getItem(key),
+      ),
+    );
+    return values.some((value) => value !== null);
+  };
+
+  const writeState = async (state: AppState) => {
+    await backend.setItem(STORAGE_KEYS.predictions, JSON.stringify(state.predictions));
+    await backend.setItem(STORAGE_KEYS.users, JSON.stringify(state.users));
+    await backend.setItem(STORAGE_KEYS.currentUser, state.currentUser);
+    await backend.setItem(STORAGE_KEYS.profiles, JSON.stringify(state.profiles));
+
+    if (state.apiKey) {
+      await backend.setItem(STORAGE_KEYS.apiKey, state.apiKey);
+    } else {
+      await backend.removeItem(STORAGE_KEYS.apiKey);
+    }
+  };
+
+  const backupForMigration = async (fromVersion: number) => {
+    const keys = [
+      STORAGE_KEYS.predictions,
+      STORAGE_KEYS.users,
+      STORAGE_KEYS.currentUser,
+      STORAGE_KEYS.profiles,
+    ];
+    const values = await Promise.all(keys.map((key) => backend.getItem(key)));
+
+    await keys.reduce(
+      (chain, key, index) =>
+        chain.then(() =>
+          values[index] === null
+            ? undefined
+            : backup(key, values[index] as string, 'migration', fromVersion),
+        ),
+      Promise.resolve(),
+    );
+  };
+
+  const load = async (): Promise<LoadResult> => {
+    const recovered: string[] = [];
+    const storedVersion = await readSchemaVersion();
+    // Data without a version predates versioning; an empty store starts at the latest schema.
+    const schemaVersion = storedVersion ?? ((await hasLegacyData()) ? 0 : latestVersion);
+    const stored: StoredState = {
+      predictions: await readJson(STORAGE_KEYS.predictions, Array.isArray, [], recovered),
+      users: await readJson(STORAGE_KEYS.users, isRecord, {}, recovered),
+      currentUser: (await backend.getItem(STORAGE_KEYS.currentUser)) ?? DEFAULT_USERNAME,
+      apiKey: (await backend.getItem(STORAGE_KEYS.apiKey)) ?? '',
+      profiles: await readJson(STORAGE_KEYS.profiles, isRecord, {}, recovered),
+    };
+
+    if (schemaVersion >= latestVersion) {
+      const state = toAppState(stored);
+
+      if (recovered.length > 0) {
+        await writeState(state);
+      }
+
+      return { state, schemaVersion, migratedFrom: null, recovered };
+    }
+
+    await backupForMigration(schemaVersion);
+    const migrated = migrations
+      .filter((migration) => migration.version > schemaVersion)
+      .reduce((state, migration) => migration.migrate(state), stored);
+    const state = toAppState(migrated);
+
+    await writeState(state);
+    await backend.setItem(STORAGE_KEYS.schemaVersion, String(latestVersion));
+
+    return { state, schemaVersion: latestVersion, migratedFrom: schemaVersion, recovered };
+  };
+
+  return {
+    load,
+    savePredictions: (predictions) =>
+      backend.setItem(STORAGE_KEYS.predictions, JSON.stringify(predictions)),
+    saveUsers: (users) => backend.setItem(STORAGE_KEYS.users, JSON.stringify(users)),
+    saveCurrentUser: (username) =>
+      backend.setItem(STORAGE_KEYS.currentUser, username.trim() || DEFAULT_USERNAME),
+    saveApiKey: (apiKey) => {
+      const cleaned = cleanApiKey(apiKey);
+      return cleaned
+        ? backend.setItem(STORAGE_KEYS.apiKey, cleaned)
+        : backend.removeItem(STORAGE_KEYS.apiKey);
+    },
+    saveProfiles: (profiles) => backend.setItem(STORAGE_KEYS.profiles, JSON.stringify(profiles)),
+    listBackups,
+    restoreBackup: async (backupKey) => {
+      const entry = (await listBackups()).find((candidate) => candidate.key === backupKey);
+      const raw = entry ? await backend.getItem(entry.key) : null;
+
+      if (!entry || raw === null) {
+        return false;
+      }
+
+      await backend.setItem(entry.sourceKey, raw);
+      return true;
+    },
+  };
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseDailySeriesResponse } from './alphaVantage.js';
+import { BOT_USERNAMES, createBotEntries, isBotUsername, syncBotEntries } from './bots.js';
+import { verifyReveal } from './commitReveal.js';
+import timeSeriesDailyFixture from './fixtures/timeSeriesDaily.AAPL.json';
+import { createLeague, mergeLeagueSeasonUsers } from './league.js';
+import { sanitizeUserEntry, type LeagueUsers, type Prediction } from './prediction.js';
+import { rankLeagueUsers } from './ranking.js';
+
+const { bars } = parseDailySeriesResponse(timeSeriesDailyFixture);
+const barsBySymbol = { aapl: bars };
+
+const basePrediction: Prediction = {
+  id: 1,
+  symbol: 'AAPL',
+  prediction: 'up',
+  period: 'day',
+  madeAt: '2024-03-04T15:00:00.000Z',
+  targetDate: '2024-03-05',
+  openPrice: null,
+  closePrice: null,
+  status: 'pending',
+  user: 'Alice',
+};
+
+const humans: LeagueUsers = {
+  Alice: sanitizeUserEntry('Alice', {
+    predictions: [
+      basePrediction,
+      {
+        ...basePrediction,
+        id: 2,
+        period: 'week',
+        targetDate: '2024-03-08',
+        madeAt: '2024-03-07T15:00:00.000Z',
+      },
+    ],
+  }),
+  Bob: sanitizeUserEntry('Bob', {
+    predictions: [
+      {
+        ...basePrediction,
+        id: 5,
+        prediction: 'down',
+        period: 'week',
+        targetDate: '2024-03-08',
+        madeAt: '2024-03-06T15:00:00.000Z',
+      },
+      { ...basePrediction, id: 6, targetDate: '2024-04-05', madeAt: '2024-04-04T15:00:00.000Z' },
+    ],
+  }),
+};
+
+const callsOf = (users: LeagueUsers, username: string) =>
+  users[username].predictions.map(({ period, targetDate, prediction, status }) => [
+    period,
+    targetDate,
+    prediction,
+    status,
+  ]);
+
+describe('createBotEntries', () => {
+  const bots = createBotEntries(humans, barsBySymbol, { today: '2024-04-02' });
+
+  it('calls each human window once, from the first time it was called', () => {
+    expect(Object.keys(bots)).toEqual(Object.values(BOT_USERNAMES));
+    expect(callsOf(bots, BOT_USERNAMES['always-up'])).toEqual([
+      ['day', '2024-03-05', 'up', 'resolved'],
+      ['week', '2024-03-08', 'up', 'resolved'],
+      ['day', '2024-04-05', 'up', 'pending'],
+    ]);
+    expect(bots[BOT_USERNAMES['always-up']].predictions[1].madeAt).toBe('2024-03-06T15:00:00.000Z');
+  });
+
+  it('follows or fades the last move known at prediction time', () => {
+    expect(callsOf(bots, BOT_USERNAMES.momentum).map(([, , call]) => call)).toEqual([
+      'up',
+      'down',
+      'down',
+    ]);
+    expect(callsOf(bots, BOT_USERNAMES['mean-reversion']).map(([, , call]) => call)).toEqual([
+      'down',
+      'up',
+      'up',
+    ]);
+    expect(bots[BOT_USERNAMES.momentum].pointsS1).toBe(0);
+    expect(bots[BOT_USERNAMES['mean-reversion']].pointsS1).toBe(0);
+    expect(bots[BOT_USERNAMES['always-up']].pointsS1).toBe(-2);
+  });
+
+  it('resolves bots from the same prices as the humans', () => {
+    const [day, week] = bots[BOT_USERNAMES['always-up']].predictions;
+
+    expect([day.openPrice, day.closePrice]).toEqual([170.76, 170.12]);
+    expect([week.openPrice, week.closePrice]).toEqual([176.15, 170.73]);
+  });
+
+  it('flips the same way for the same seed', () => {
+    const coin = BOT_USERNAMES['coin-flip'];
+    const flips = (seed: string) =>
+      createBotEntries(humans, barsBySymbol, { seed, strategies: ['coin-flip'] })[
+        coin
+      ].predictions.map((prediction) => prediction.prediction);
+
+    expect(flips('league-1')).toEqual(flips('league-1'));
+    expect(flips('league-1').every((call) => call === 'up' || call === 'down')).toBe(true);
+    expect(isBotUsername(coin)).toBe(true);
+    expect(isBotUsername('Alice')).toBe(false);
+  });
+
+  it('skips momentum calls with no earlier history', () => {
+    const early = createBotEntries(
+      {
+        Alice: sanitizeUserEntry('Alice', {
+          predictions: [{ ...basePrediction, madeAt: '2024-03-01T15:00:00.000Z' }],
+        }),
+      },
+      barsBySymbol,
+      { strategies: ['momentum'] },
+    );
+
+    expect(early[BOT_USERNAMES.momentum].predictions).toEqual([]);
+  });
+});
+
+describe('syncBotEntries', () => {
+  it('stores bots as ordinary league entries that rank and re-merge cleanly', () => {
+    const pending = syncBotEntries(humans, barsBySymbol, {
+      strategies: ['always-up'],
+      today: '2024-03-05',
+    });
+    const bot = BOT_USERNAMES['always-up'];
+
+    expect(pending.added).toEqual([bot]);
+    expect(pending.mergedUsers[bot].predictions.every((p) => p.status === 'pending')).toBe(true);
+
+    const resolved = syncBotEntries(pending.mergedUsers, barsBySymbol, {
+      strategies: ['always-up'],
+      today: '2024-04-02',
+    });
+    expect(resolved.updated).toEqual([bot]);
+    expect(resolved.mergedUsers[bot].pointsS1).toBe(-2);
+
+    const again = syncBotEntries(resolved.mergedUsers, barsBySymbol, {
+      strategies: ['always-up'],
+      today: '2024-04-02',
+    });
+    expect(again.updated).toEqual([]);
+
+    expect(rankLeagueUsers(resolved.mergedUsers).ranked.map((player) => player.username)).toContain(
+      bot,
+    );
+  });
+
+  it('commits bot calls so strict leagues keep them', () => {
+    const league = createLeague({
+      id: 'spring',
+      name: 'Spring Cup',
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      rules: { requireCommitments: true },
+    });
+    const bots = createBotEntries(humans, barsBySymbol, {
+      strategies: ['coin-flip'],
+      today: '2024-04-02',
+    });
+    const bot = BOT_USERNAMES['coin-flip'];
+
+    expect(bots[bot].predictions.every(verifyReveal)).toBe(true);
+    expect(createBotEntries(humans, barsBySymbol, { strategies: ['coin-flip'] })).toEqual(
+      createBotEntries(humans, barsBySymbol, { strategies: ['coin-flip'] }),
+    );
+
+    const summary = mergeLeagueSeasonUsers(league, bots);
+    expect(summary.added).toEqual([bot]);
+    // The week was first called mid-week, so that call is late for the bot as well.
+    expect(summary.mergedUsers[bot].predictions.map(({ targetDate }) => targetDate)).toEqual([
+      '2024-03-05',
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+import { type DailyBar } from './alphaVantage.js';
+import { commitPrediction } from './commitReveal.js';
+import {
+  mergeLeagueUsers,
+  sanitizeUserEntry,
+  type LeagueUsers,
+  type MergeOptions,
+  type MergeSummary,
+  type Prediction,
+  type TrendDirection,
+} from './prediction.js';
+import { resolvePredictionsFromSeries } from './predictionResolver.js';
+import { sha256Hex } from './sha256.js';
+import { DEFAULT_EXCHANGE, getExchangeDateTime, type ExchangeId } from './tradingCalendar.js';
+
+/**
+ * - `always-up`: calls every window up.
+ * - `coin-flip`: a seeded, reproducible 50/50 call per window.
+ * - `momentum`: repeats the last session's move known when the human predicted.
+ * - `mean-reversion`: bets against that move.
+ */
+export type BotStrategy = 'always-up' | 'coin-flip' | 'momentum' | 'mean-reversion';
+
+export interface BotOptions {
+  /** Defaults to every strategy. */
+  strategies?: BotStrategy[];
+  /** Seed for the coin flip; the same seed always flips the same way for a given window. */
+  seed?: string;
+  exchange?: ExchangeId;
+  /** Passed to the resolver; see `ResolveFromSeriesOptions`. */
+  today?: string;
+  benchmarkSymbol?: string;
+}
+
+export const BOT_STRATEGIES: readonly BotStrategy[] = [
+  'always-up',
+  'coin-flip',
+  'momentum',
+  'mean-reversion',
+];
+
+export const BOT_USERNAMES: Record<BotStrategy, string> = {
+  'always-up': 'Bot: Always Up',
+  'coin-flip': 'Bot: Coin Flip',
+  momentum: 'Bot: Momentum',
+  'mean-reversion': 'Bot: Mean Reversion',
+};
+
+export const DEFAULT_BOT_SEED = 'flengames';
+
+const BOT_NAMES = new Set(Object.values(BOT_USERNAMES));
+
+export const isBotUsername = (username: string): boolean => BOT_NAMES.has(username);
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/** Identifies a prediction window independently of who called it. */
+const getWindowKey = (prediction: Prediction): string =>
+  JSON.stringify([
+    normalizeSymbol(prediction.symbol),
+    prediction.period,
+    prediction.targetDate,
+    prediction.horizonDays ?? null,
+  ]);
+
+/** Stable across runs, so regenerated bot predictions merge into the stored ones by id. */
+const getBotPredictionId = (strategy: BotStrategy, windowKey: string): number =>
+  parseInt(sha256Hex(`${strategy}:${windowKey}`).slice(0, 12), 16);
+
+/**
+ * Deterministic, so a regenerated bot call carries the same commitment as the stored one and
+ * still passes strict leagues' commit–reveal check.
+ */
+const getBotNonce = (strategy: BotStrategy, windowKey: string): string =>
+  sha256Hex(`nonce:${strategy}:${windowKey}`).slice(0, 32);
+
+const flipCoin = (seed: string, windowKey: string): TrendDirection =>
+  parseInt(sha256Hex(`${seed}:${windowKey}`).slice(0, 8), 16) % 2 === 0 ? 'up' : 'down';
+
+/** Direction of the last session that closed before `beforeDate`, or null without one. */
+const getLastMove = (bars: DailyBar[], beforeDate: string): TrendDirection | null => {
+  const history = bars
+    .filter((bar) => bar.date < beforeDate)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const last = history[history.length - 1];
+
+  if (!last) {
+    return null;
+  }
+
+  const reference = history.length > 1 ? history[history.length - 2].close : last.open;
+  return last.close > reference ? 'up' : 'down';
+};
+
+const opposite = (direction: TrendDirection): TrendDirection =>
+  direction === 'up' ? 'down' : 'up';
+
+const chooseDirection = (
+  strategy: BotStrategy,
+  template: Prediction,
+  windowKey: string,
+  bars: DailyBar[],
+  options: BotOptions,
+): TrendDirection | null => {
+  if (strategy === 'always-up') {
+    return 'up';
+  }
+
+  if (strategy === 'coin-flip') {
+    return flipCoin(options.seed ?? DEFAULT_BOT_SEED, windowKey);
+  }
+
+  const exchange = options.exchange ?? DEFAULT_EXCHANGE;
+  const madeOn = getExchangeDateTime(exchange, new Date(template.madeAt)).date;
+  const lastMove = getLastMove(bars, madeOn);
+
+  if (!lastMove) {
+    return null;
+  }
+
+  return strategy === 'momentum' ? lastMove : opposite(lastMove);
+};
+
+/**
+ * Builds one entry per bot, calling every window a human in `users` has called, at the time
+ * the first human called it, committed with a deterministic nonce. Predictions are resolved
+ * from `barsBySymbol` exactly as human ones are; the momentum and mean-reversion bots skip
+ * windows with no earlier price history.
+ */
+export const createBotEntries = (
+  users: LeagueUsers,
+  barsBySymbol: Record<string, DailyBar[]>,
+  options: BotOptions = {},
+): LeagueUsers => {
+  const windows = new Map<string, Prediction>();
+
+  Object.entries(users)
+    .filter(([username]) => !isBotUsername(username))
+    .flatMap(([, entry]) => entry.predictions)
+    .forEach((prediction) => {
+      const key = getWindowKey(prediction);
+      const known = windows.get(key);
+
+      if (!known || Date.parse(prediction.madeAt) < Date.parse(known.madeAt)) {
+        windows.set(key, prediction);
+      }
+    });
+
+  const normalizedBars: Record<string, DailyBar[]> = {};
+  Object.entries(barsBySymbol).forEach(([symbol, bars]) => {
+    normalizedBars[normalizeSymbol(symbol)] = bars;
+  });
+
+  const botUsers: LeagueUsers = {};
+
+  (options.strategies ?? BOT_STRATEGIES).forEach((strategy) => {
+    const username = BOT_USERNAMES[strategy];
+    const predictions = [...windows.entries()].flatMap(([key, template]): Prediction[] => {
+      const symbol = normalizeSymbol(template.symbol);
+      const direction = chooseDirection(
+        strategy,
+        template,
+        key,
+        normalizedBars[symbol] ?? [],
+        options,
+      );
+
+      if (!direction) {
+        return [];
+      }
+
+      const prediction: Prediction = {
+        id: getBotPredictionId(strategy, key),
+        symbol,
+        prediction: direction,
+        period: template.period,
+        madeAt: template.madeAt,
+        targetDate: template.targetDate,
+        openPrice: null,
+        closePrice: null,
+        status: 'pending',
+        user: username,
+      };
+
+      if (template.horizonDays !== undefined) {
+        prediction.horizonDays = template.horizonDays;
+      }
+
+      if (template.leagueId) {
+        prediction.leagueId = template.leagueId;
+      }
+
+      return [{ ...prediction, ...commitPrediction(prediction, getBotNonce(strategy, key)) }];
+    });
+    const { resolved, unresolved } = resolvePredictionsFromSeries(predictions, normalizedBars, {
+      today: options.today,
+      benchmarkSymbol: options.benchmarkSymbol,
+    });
+    const latestMadeAt = predictions.reduce(
+      (latest, prediction) => (prediction.madeAt > latest ? prediction.madeAt : latest),
+      new Date(0).toISOString(),
+    );
+
+    botUsers[username] = sanitizeUserEntry(username, {
+      predictions: [...resolved, ...unresolved.map(({ prediction }) => prediction)].sort(
+        (a, b) => Date.parse(a.madeAt) - Date.parse(b.madeAt) || a.id - b.id,
+      ),
+      updatedAt: latestMadeAt,
+    });
+  });
+
+  return botUsers;
+};
+
+/**
+ * Regenerates the bots and merges them into `users` like any other player, so stored bot
+ * predictions are kept and newly resolved ones replace their pending copies.
+ */
+export const syncBotEntries = (
+  users: LeagueUsers,
+  barsBySymbol: Record<string, DailyBar[]>,
+  options: BotOptions & MergeOptions = {},
+): MergeSummary =>
+  mergeLeagueUsers(users, createBotEntries(users, barsBySymbol, options), {
+    barsBySymbol,
+    ...options,
+  });
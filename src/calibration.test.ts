@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { getCalibrationStats, getLeagueCalibration } from './calibration.js';
+import { type Prediction } from './prediction.js';
+
+describe('calibration statistics', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-01-01T00:00:00.000Z',
+    targetDate: '2024-01-02',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Test',
+  };
+
+  const predictions: Prediction[] = [
+    { ...basePrediction, confidence: 55 },
+    { ...basePrediction, id: 2, prediction: 'down', confidence: 58 },
+    { ...basePrediction, id: 3, confidence: 100 },
+    { ...basePrediction, id: 4, confidence: 90 },
+    { ...basePrediction, id: 5, prediction: 'down', confidence: 95 },
+    { ...basePrediction, id: 6 },
+    { ...basePrediction, id: 7, status: 'pending', closePrice: null, confidence: 80 },
+  ];
+
+  it('buckets stated confidence against hit rate', () => {
+    const stats = getCalibrationStats(predictions);
+
+    expect(stats.buckets.map((bucket) => [bucket.minConfidence, bucket.count])).toEqual([
+      [50, 2],
+      [60, 0],
+      [70, 0],
+      [80, 0],
+      [90, 3],
+    ]);
+    expect(stats.buckets[0]).toMatchObject({ hits: 1, hitRate: 0.5, averageConfidence: 56.5 });
+    expect(stats.buckets[1].hitRate).toBeNull();
+    expect(stats.buckets[4].hitRate).toBeCloseTo(2 / 3);
+    expect(stats.buckets[4].averageConfidence).toBeCloseTo(95);
+    expect(stats.scoredCount).toBe(5);
+    expect(stats.hitRate).toBeCloseTo(0.6);
+  });
+
+  it('reports mean brier score and scoring totals', () => {
+    const stats = getCalibrationStats(predictions);
+    const expectedBrier = (0.45 ** 2 + 0.58 ** 2 + 0 + 0.1 ** 2 + 0.95 ** 2) / 5;
+
+    expect(stats.brierScore).toBeCloseTo(expectedBrier);
+    expect(stats.brierPoints).toBeCloseTo(5 - 4 * expectedBrier * 5);
+  });
+
+  it('supports custom bucket sizes and empty histories', () => {
+    const stats = getCalibrationStats([], { bucketSize: 25 });
+
+    expect(stats.buckets.map((bucket) => [bucket.minConfidence, bucket.maxConfidence])).toEqual([
+      [50, 75],
+      [75, 100],
+    ]);
+    expect(stats.brierScore).toBeNull();
+    expect(stats.averageConfidence).toBeNull();
+  });
+
+  it('computes calibration per league member', () => {
+    const league = getLeagueCalibration({
+      Alpha: { predictions, pointsS1: 0, pointsS2: 0, pointsS3: 0, updatedAt: '' },
+      Beta: { predictions: [], pointsS1: 0, pointsS2: 0, pointsS3: 0, updatedAt: '' },
+    });
+
+    expect(league.Alpha.scoredCount).toBe(5);
+    expect(league.Beta.scoredCount).toBe(0);
+  });
+});
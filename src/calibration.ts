@@ -0,0 +1,110 @@
+import {
+  calculateBrierPoints,
+  calculateLogScorePoints,
+  getActualDirection,
+  MAX_CONFIDENCE,
+  MIN_CONFIDENCE,
+  type LeagueUsers,
+  type Prediction,
+} from './prediction.js';
+
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  hits: number;
+  hitRate: number | null;
+  averageConfidence: number | null;
+}
+
+export interface CalibrationStats {
+  buckets: CalibrationBucket[];
+  scoredCount: number;
+  averageConfidence: number | null;
+  hitRate: number | null;
+  /** Mean Brier score (0 is perfect, 0.25 is a coin flip stated at 50%). */
+  brierScore: number | null;
+  brierPoints: number;
+  logScorePoints: number;
+}
+
+export interface CalibrationOptions {
+  bucketSize?: number;
+}
+
+const DEFAULT_BUCKET_SIZE = 10;
+
+/**
+ * Groups resolved predictions that carry a confidence into buckets of stated confidence and
+ * compares each bucket's average confidence with how often those calls were right. The top
+ * bucket is closed so that 100% calls share the 90–100 bucket.
+ */
+export const getCalibrationStats = (
+  predictions: Prediction[],
+  options: CalibrationOptions = {},
+): CalibrationStats => {
+  const bucketSize =
+    typeof options.bucketSize === 'number' && options.bucketSize > 0
+      ? options.bucketSize
+      : DEFAULT_BUCKET_SIZE;
+  const bucketCount = Math.max(1, Math.ceil((MAX_CONFIDENCE - MIN_CONFIDENCE) / bucketSize));
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    minConfidence: MIN_CONFIDENCE + index * bucketSize,
+    maxConfidence: Math.min(MIN_CONFIDENCE + (index + 1) * bucketSize, MAX_CONFIDENCE),
+    count: 0,
+    hits: 0,
+    confidenceTotal: 0,
+  }));
+
+  const scored = predictions.filter(
+    (prediction) =>
+      typeof prediction.confidence === 'number' && getActualDirection(prediction) !== null,
+  );
+  let brierTotal = 0;
+  let hitTotal = 0;
+  let confidenceTotal = 0;
+
+  scored.forEach((prediction) => {
+    const confidence = prediction.confidence as number;
+    const isHit = getActualDirection(prediction) === prediction.prediction;
+    const bucketIndex = Math.min(
+      Math.floor((confidence - MIN_CONFIDENCE) / bucketSize),
+      bucketCount - 1,
+    );
+    const bucket = buckets[bucketIndex];
+
+    bucket.count += 1;
+    bucket.hits += isHit ? 1 : 0;
+    bucket.confidenceTotal += confidence;
+    brierTotal += (confidence / 100 - (isHit ? 1 : 0)) ** 2;
+    hitTotal += isHit ? 1 : 0;
+    confidenceTotal += confidence;
+  });
+
+  const scoredCount = scored.length;
+
+  return {
+    buckets: buckets.map(({ confidenceTotal: bucketConfidence, ...bucket }) => ({
+      ...bucket,
+      hitRate: bucket.count > 0 ? bucket.hits / bucket.count : null,
+      averageConfidence: bucket.count > 0 ? bucketConfidence / bucket.count : null,
+    })),
+    scoredCount,
+    averageConfidence: scoredCount > 0 ? confidenceTotal / scoredCount : null,
+    hitRate: scoredCount > 0 ? hitTotal / scoredCount : null,
+    brierScore: scoredCount > 0 ? brierTotal / scoredCount : null,
+    brierPoints: calculateBrierPoints(scored),
+    logScorePoints: calculateLogScorePoints(scored),
+  };
+};
+
+export const getLeagueCalibration = (
+  users: LeagueUsers,
+  options: CalibrationOptions = {},
+): Record<string, CalibrationStats> =>
+  Object.fromEntries(
+    Object.entries(users).map(([username, entry]) => [
+      username,
+      getCalibrationStats(entry.predictions, options),
+    ]),
+  );
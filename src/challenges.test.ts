@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  acceptChallenge,
+  createChallenge,
+  declineChallenge,
+  getChallengePoints,
+  getHeadToHeadRecords,
+  mergeChallenges,
+  settleChallenge,
+  type Challenge,
+} from './challenges.js';
+import { createLeagueExport, importLeagueData } from './leagueExport.js';
+import { sanitizeUserEntry, type LeagueUsers, type Prediction } from './prediction.js';
+
+const pending: Prediction = {
+  id: 1,
+  symbol: 'AAPL',
+  prediction: 'up',
+  period: 'week',
+  madeAt: '2024-03-01T15:00:00.000Z',
+  targetDate: '2024-03-08',
+  openPrice: null,
+  closePrice: null,
+  status: 'pending',
+  user: 'Alice',
+};
+
+const resolve = (prediction: Prediction, openPrice = 100, closePrice = 104): Prediction => ({
+  ...prediction,
+  openPrice,
+  closePrice,
+  status: 'resolved',
+});
+
+const aliceCall = pending;
+const bobCall: Prediction = { ...pending, id: 7, prediction: 'down', user: 'Bob' };
+
+const usersWith = (alice: Prediction, bob: Prediction): LeagueUsers => ({
+  Alice: sanitizeUserEntry('Alice', { predictions: [alice] }),
+  Bob: sanitizeUserEntry('Bob', { predictions: [bob] }),
+});
+
+const openChallenge = (overrides: Partial<Parameters<typeof createChallenge>[2]> = {}) =>
+  createChallenge(aliceCall, 'Bob', {
+    stake: 5,
+    generateId: () => 'c1',
+    now: new Date('2024-03-01T16:00:00.000Z'),
+    ...overrides,
+  });
+
+describe('challenge lifecycle', () => {
+  it('creates opposite challenges that reveal the challenger call', () => {
+    expect(openChallenge()).toEqual({
+      id: 'c1',
+      challenger: 'Alice',
+      opponent: 'Bob',
+      symbol: 'AAPL',
+      period: 'week',
+      targetDate: '2024-03-08',
+      mode: 'opposite',
+      challengerCall: 'up',
+      scoring: 'S1',
+      stake: 5,
+      challengerPredictionId: 1,
+      opponentPredictionId: null,
+      createdAt: '2024-03-01T16:00:00.000Z',
+      status: 'open',
+      result: null,
+      voidReason: null,
+    });
+    expect(openChallenge({ mode: 'independent' }).challengerCall).toBeNull();
+  });
+
+  it('validates challenges and acceptances', () => {
+    expect(() => createChallenge(aliceCall, 'Alice', { stake: 5 })).toThrow(RangeError);
+    expect(() => createChallenge(aliceCall, 'Bob', { stake: 0.5 })).toThrow(RangeError);
+    expect(() => createChallenge(resolve(aliceCall), 'Bob', { stake: 5 })).toThrow(RangeError);
+
+    const challenge = openChallenge();
+    expect(() => acceptChallenge(challenge, { ...bobCall, user: 'Carol' })).toThrow(/Only Bob/);
+    expect(() => acceptChallenge(challenge, { ...bobCall, targetDate: '2024-03-15' })).toThrow(
+      RangeError,
+    );
+    expect(() => acceptChallenge(challenge, { ...bobCall, prediction: 'up' })).toThrow(
+      /against "up"/,
+    );
+    expect(
+      acceptChallenge(openChallenge({ mode: 'independent' }), { ...bobCall, prediction: 'up' })
+        .status,
+    ).toBe('accepted');
+    expect(declineChallenge(challenge).status).toBe('declined');
+    expect(() => declineChallenge(acceptChallenge(challenge, bobCall))).toThrow(RangeError);
+  });
+});
+
+describe('settleChallenge', () => {
+  const now = new Date('2024-03-09T00:00:00.000Z');
+
+  it('waits for both predictions, then scores them with the chosen rule', () => {
+    const accepted = acceptChallenge(openChallenge(), bobCall);
+
+    expect(settleChallenge(accepted, usersWith(resolve(aliceCall), bobCall), now)).toBe(accepted);
+
+    const settled = settleChallenge(accepted, usersWith(resolve(aliceCall), resolve(bobCall)), now);
+    expect(settled.status).toBe('settled');
+    expect(settled.result).toEqual({
+      challengerScore: 1,
+      opponentScore: -1,
+      winner: 'Alice',
+      settledAt: now.toISOString(),
+    });
+
+    const byMagnitude = settleChallenge(
+      acceptChallenge(openChallenge({ scoring: 'S2' }), bobCall),
+      usersWith(resolve(aliceCall, 100, 98), resolve(bobCall, 100, 98)),
+      now,
+    );
+    expect(byMagnitude.result).toMatchObject({ challengerScore: -2, opponentScore: 2 });
+    expect(byMagnitude.result?.winner).toBe('Bob');
+  });
+
+  it('scores independent calls in the same direction as a draw', () => {
+    const accepted = acceptChallenge(openChallenge({ mode: 'independent' }), {
+      ...bobCall,
+      prediction: 'up',
+    });
+    const settled = settleChallenge(
+      accepted,
+      usersWith(resolve(aliceCall), resolve({ ...bobCall, prediction: 'up' })),
+      now,
+    );
+
+    expect(settled.result?.winner).toBeNull();
+  });
+
+  it('voids challenges whose predictions moved or are priced differently', () => {
+    const accepted = acceptChallenge(openChallenge(), bobCall);
+
+    expect(
+      settleChallenge(accepted, usersWith(aliceCall, { ...bobCall, targetDate: '2024-03-15' }))
+        .voidReason,
+    ).toBe('window-mismatch');
+    expect(
+      settleChallenge(accepted, usersWith(resolve(aliceCall), resolve(bobCall, 100, 110)))
+        .voidReason,
+    ).toBe('price-mismatch');
+    expect(settleChallenge(accepted, { Alice: usersWith(aliceCall, bobCall).Alice })).toBe(
+      accepted,
+    );
+  });
+
+  it('waits for predictions that have not synced yet instead of voiding', () => {
+    const accepted = acceptChallenge(openChallenge(), bobCall);
+    const beforeSync = usersWith(resolve(aliceCall), resolve({ ...bobCall, id: 8 }));
+    const waiting = settleChallenge(accepted, beforeSync, now);
+
+    expect(waiting).toBe(accepted);
+    expect(mergeChallenges([accepted], [waiting])).toEqual([accepted]);
+
+    const settled = settleChallenge(waiting, usersWith(resolve(aliceCall), resolve(bobCall)), now);
+    expect(settled.status).toBe('settled');
+    expect(settleChallenge(settled, beforeSync, now)).toMatchObject({
+      status: 'accepted',
+      result: null,
+    });
+  });
+
+  it('re-scores settled challenges instead of trusting their result', () => {
+    const forged: Challenge = {
+      ...acceptChallenge(openChallenge(), bobCall),
+      status: 'settled',
+      result: { challengerScore: -1, opponentScore: 1, winner: 'Bob', settledAt: '2024-03-08' },
+    };
+
+    expect(settleChallenge(forged, usersWith(aliceCall, bobCall))).toMatchObject({
+      status: 'accepted',
+      result: null,
+    });
+    expect(
+      settleChallenge(forged, usersWith(resolve(aliceCall), resolve(bobCall)), now).result?.winner,
+    ).toBe('Alice');
+  });
+
+  it('re-checks imported void challenges instead of letting them erase a result', () => {
+    const accepted = acceptChallenge(openChallenge(), bobCall);
+    const forgedVoid: Challenge = { ...accepted, status: 'void', voidReason: 'price-mismatch' };
+    const merged = mergeChallenges([accepted], [forgedVoid]);
+    const users = usersWith(resolve(aliceCall), resolve(bobCall));
+
+    expect(merged).toEqual([forgedVoid]);
+    expect(settleChallenge(merged[0], users, now)).toMatchObject({
+      status: 'settled',
+      voidReason: null,
+      result: { winner: 'Alice' },
+    });
+    expect(settleChallenge(forgedVoid, usersWith(aliceCall, bobCall))).toMatchObject({
+      status: 'accepted',
+      voidReason: null,
+    });
+
+    const genuine = settleChallenge(
+      accepted,
+      usersWith(aliceCall, { ...bobCall, targetDate: '2024-03-15' }),
+    );
+    expect(
+      settleChallenge(genuine, usersWith(aliceCall, { ...bobCall, targetDate: '2024-03-15' })),
+    ).toBe(genuine);
+  });
+});
+
+describe('head-to-head records', () => {
+  const settled = (id: string, challenger: string, opponent: string, winner: string | null) =>
+    ({
+      ...openChallenge({ generateId: () => id }),
+      challenger,
+      opponent,
+      stake: 3,
+      status: 'settled',
+      result: { challengerScore: 0, opponentScore: 0, winner, settledAt: '2024-03-09' },
+    }) as Challenge;
+
+  const challenges = [
+    settled('1', 'Alice', 'Bob', 'Alice'),
+    settled('2', 'Bob', 'Alice', 'Alice'),
+    settled('3', 'Bob', 'Alice', null),
+    settled('4', 'Carol', 'Alice', 'Carol'),
+    openChallenge({ generateId: () => '5' }),
+  ];
+
+  it('tallies wins, draws and stakes per pair', () => {
+    expect(getHeadToHeadRecords(challenges)).toEqual([
+      {
+        players: ['Alice', 'Bob'],
+        wins: { Alice: 2, Bob: 0 },
+        draws: 1,
+        netPoints: { Alice: 6, Bob: -6 },
+        settled: 3,
+      },
+      {
+        players: ['Alice', 'Carol'],
+        wins: { Alice: 0, Carol: 1 },
+        draws: 0,
+        netPoints: { Alice: -3, Carol: 3 },
+        settled: 1,
+      },
+    ]);
+    expect(getChallengePoints(challenges, 'Alice')).toBe(3);
+    expect(getChallengePoints(challenges, 'Dave')).toBe(0);
+  });
+
+  it('merges copies by id, keeping the most advanced status', () => {
+    const open = openChallenge();
+    const accepted = acceptChallenge(open, bobCall);
+    const other = openChallenge({ generateId: () => 'c2' });
+
+    expect(mergeChallenges([open], [accepted, other])).toEqual([accepted, other]);
+    expect(mergeChallenges([accepted], [open])).toEqual([accepted]);
+  });
+});
+
+describe('challenges in league exports', () => {
+  it('round-trips challenges and settles them against the merged users', () => {
+    const accepted = acceptChallenge(openChallenge(), bobCall);
+    const envelope = createLeagueExport({
+      users: usersWith(resolve(aliceCall), resolve(bobCall)),
+      appVersion: '1.0.0',
+      challenges: [accepted, { ...accepted, id: 'bad', stake: -1 }],
+    });
+    const report = importLeagueData({}, JSON.stringify(envelope), {
+      now: new Date('2024-03-09T00:00:00.000Z'),
+    });
+
+    expect(report.challengeErrors.map((error) => error.path)).toEqual(['challenges[1].stake']);
+    expect(report.challenges).toHaveLength(1);
+    expect(report.challenges[0]).toMatchObject({ id: 'c1', status: 'settled' });
+    expect(report.challenges[0].result?.winner).toBe('Alice');
+  });
+
+  it('drops challenges that involve a rejected user', () => {
+    const envelope = createLeagueExport({
+      users: usersWith(aliceCall, bobCall),
+      appVersion: '1.0.0',
+      challenges: [acceptChallenge(openChallenge(), bobCall)],
+    });
+    const existing = [openChallenge({ generateId: () => 'kept' })];
+    const report = importLeagueData({}, envelope, { exclude: ['Bob'], challenges: existing });
+
+    expect(report.challenges).toEqual(existing);
+  });
+});
@@ -0,0 +1,345 @@
+import {
+  calculateSystem1Points,
+  calculateSystem2Points,
+  type LeagueUsers,
+  type Prediction,
+  type PredictionPeriod,
+  type TrendDirection,
+} from './prediction.js';
+
+/** `opposite` challenges require the opponent to call the other direction. */
+export type ChallengeMode = 'opposite' | 'independent';
+
+export type ChallengeScoring = 'S1' | 'S2';
+
+export type ChallengeStatus = 'open' | 'accepted' | 'declined' | 'settled' | 'void';
+
+/**
+ * Why an accepted challenge could not be settled:
+ * - `window-mismatch`: the predictions no longer cover the same symbol and window.
+ * - `price-mismatch`: the two predictions resolved with different prices.
+ */
+export type ChallengeVoidReason = 'window-mismatch' | 'price-mismatch';
+
+export interface ChallengeResult {
+  challengerScore: number;
+  opponentScore: number;
+  /** Null for a draw. */
+  winner: string | null;
+  settledAt: string;
+}
+
+export interface Challenge {
+  id: string;
+  challenger: string;
+  opponent: string;
+  symbol: string;
+  period: PredictionPeriod;
+  targetDate: string;
+  mode: ChallengeMode;
+  /** The challenger's call in `opposite` challenges; independent calls stay private. */
+  challengerCall: TrendDirection | null;
+  scoring: ChallengeScoring;
+  /** Points the loser pays the winner. */
+  stake: number;
+  challengerPredictionId: number;
+  opponentPredictionId: number | null;
+  createdAt: string;
+  status: ChallengeStatus;
+  result: ChallengeResult | null;
+  voidReason: ChallengeVoidReason | null;
+}
+
+export interface CreateChallengeOptions {
+  stake: number;
+  mode?: ChallengeMode;
+  scoring?: ChallengeScoring;
+  now?: Date;
+  generateId?: () => string;
+}
+
+export interface HeadToHeadRecord {
+  /** The pair in alphabetical order. */
+  players: [string, string];
+  wins: Record<string, number>;
+  draws: number;
+  /** Net stake points won by each player against the other. */
+  netPoints: Record<string, number>;
+  settled: number;
+}
+
+export const CHALLENGE_MODES: readonly ChallengeMode[] = ['opposite', 'independent'];
+export const CHALLENGE_SCORING: readonly ChallengeScoring[] = ['S1', 'S2'];
+export const CHALLENGE_STATUSES: readonly ChallengeStatus[] = [
+  'open',
+  'accepted',
+  'declined',
+  'settled',
+  'void',
+];
+/** Resolved prices further apart than this void the challenge rather than pick a winner. */
+export const SETTLEMENT_PRICE_TOLERANCE_PERCENT = 0.5;
+
+const STATUS_PROGRESS: Record<ChallengeStatus, number> = {
+  open: 0,
+  accepted: 1,
+  declined: 1,
+  settled: 2,
+  void: 2,
+};
+
+const generateChallengeId = (): string => globalThis.crypto.randomUUID();
+
+const sameWindow = (challenge: Challenge, prediction: Prediction): boolean =>
+  prediction.symbol.trim().toUpperCase() === challenge.symbol &&
+  prediction.period === challenge.period &&
+  prediction.targetDate === challenge.targetDate;
+
+const pricesAgree = (a: number | null, b: number | null): boolean =>
+  typeof a === 'number' &&
+  typeof b === 'number' &&
+  Math.abs(a - b) <=
+    (SETTLEMENT_PRICE_TOLERANCE_PERCENT / 100) * Math.max(Math.abs(a), Math.abs(b));
+
+const scorePrediction = (prediction: Prediction, scoring: ChallengeScoring): number =>
+  scoring === 'S1' ? calculateSystem1Points([prediction]) : calculateSystem2Points([prediction]);
+
+/** Challenges another player to call the same symbol and window as `prediction`. */
+export const createChallenge = (
+  prediction: Prediction,
+  opponent: string,
+  options: CreateChallengeOptions,
+): Challenge => {
+  const opponentName = opponent.trim();
+
+  if (!opponentName || opponentName === prediction.user) {
+    throw new RangeError('Challenges need a different player as the opponent.');
+  }
+
+  if (prediction.status === 'resolved') {
+    throw new RangeError('Only pending predictions can be used for a challenge.');
+  }
+
+  if (!Number.isInteger(options.stake) || options.stake < 1) {
+    throw new RangeError('Stakes must be a whole number of points of at least 1.');
+  }
+
+  const mode = options.mode ?? 'opposite';
+
+  return {
+    id: (options.generateId ?? generateChallengeId)(),
+    challenger: prediction.user,
+    opponent: opponentName,
+    symbol: prediction.symbol.trim().toUpperCase(),
+    period: prediction.period,
+    targetDate: prediction.targetDate,
+    mode,
+    challengerCall: mode === 'opposite' ? prediction.prediction : null,
+    scoring: options.scoring ?? 'S1',
+    stake: options.stake,
+    challengerPredictionId: prediction.id,
+    opponentPredictionId: null,
+    createdAt: (options.now ?? new Date()).toISOString(),
+    status: 'open',
+    result: null,
+    voidReason: null,
+  };
+};
+
+/**
+ * Accepts an open challenge with the opponent's own prediction, which must cover the same
+ * symbol and window and, for `opposite` challenges, call the other direction.
+ */
+export const acceptChallenge = (challenge: Challenge, prediction: Prediction): Challenge => {
+  if (challenge.status !== 'open') {
+    throw new RangeError(`Challenge ${challenge.id} is ${challenge.status}, not open.`);
+  }
+
+  if (prediction.user !== challenge.opponent) {
+    throw new RangeError(`Only ${challenge.opponent} can accept this challenge.`);
+  }
+
+  if (prediction.status === 'resolved' || !sameWindow(challenge, prediction)) {
+    throw new RangeError(
+      `Accept with a pending ${challenge.symbol} ${challenge.period} prediction for ${challenge.targetDate}.`,
+    );
+  }
+
+  if (challenge.mode === 'opposite' && prediction.prediction === challenge.challengerCall) {
+    throw new RangeError(`Opposite challenges need a call against "${challenge.challengerCall}".`);
+  }
+
+  return { ...challenge, status: 'accepted', opponentPredictionId: prediction.id };
+};
+
+export const declineChallenge = (challenge: Challenge): Challenge => {
+  if (challenge.status !== 'open') {
+    throw new RangeError(`Challenge ${challenge.id} is ${challenge.status}, not open.`);
+  }
+
+  return { ...challenge, status: 'declined' };
+};
+
+const findPrediction = (users: LeagueUsers, username: string, id: number | null) =>
+  users[username]?.predictions.find((prediction) => prediction.id === id) ?? null;
+
+/**
+ * Settles an accepted challenge once both predictions have resolved, scoring each with the
+ * league's S1 or S2 rule. Challenges that are not accepted, or whose players are not in
+ * `users` yet, are returned unchanged. A prediction that is missing may simply not have
+ * synced yet, so the challenge waits as `accepted` instead of being voided. Settled and void
+ * challenges are checked again, so imported results are never trusted as-is.
+ */
+export const settleChallenge = (
+  challenge: Challenge,
+  users: LeagueUsers,
+  now: Date = new Date(),
+): Challenge => {
+  if (
+    (challenge.status !== 'accepted' &&
+      challenge.status !== 'settled' &&
+      challenge.status !== 'void') ||
+    !users[challenge.challenger] ||
+    !users[challenge.opponent]
+  ) {
+    return challenge;
+  }
+
+  const ownCall = findPrediction(users, challenge.challenger, challenge.challengerPredictionId);
+  const theirCall = findPrediction(users, challenge.opponent, challenge.opponentPredictionId);
+  const voided = (voidReason: ChallengeVoidReason): Challenge =>
+    challenge.status === 'void' && challenge.voidReason === voidReason
+      ? challenge
+      : { ...challenge, status: 'void', result: null, voidReason };
+  const waiting = (): Challenge =>
+    challenge.status === 'accepted'
+      ? challenge
+      : { ...challenge, status: 'accepted', result: null, voidReason: null };
+
+  if (!ownCall || !theirCall) {
+    return waiting();
+  }
+
+  if (
+    !sameWindow(challenge, ownCall) ||
+    !sameWindow(challenge, theirCall) ||
+    (challenge.mode === 'opposite' &&
+      (ownCall.prediction !== challenge.challengerCall ||
+        theirCall.prediction === ownCall.prediction))
+  ) {
+    return voided('window-mismatch');
+  }
+
+  if (ownCall.status !== 'resolved' || theirCall.status !== 'resolved') {
+    return waiting();
+  }
+
+  if (
+    !pricesAgree(ownCall.openPrice, theirCall.openPrice) ||
+    !pricesAgree(ownCall.closePrice, theirCall.closePrice)
+  ) {
+    return voided('price-mismatch');
+  }
+
+  const challengerScore = scorePrediction(ownCall, challenge.scoring);
+  const opponentScore = scorePrediction(theirCall, challenge.scoring);
+  let winner: string | null = null;
+
+  if (challengerScore !== opponentScore) {
+    winner = challengerScore > opponentScore ? challenge.challenger : challenge.opponent;
+  }
+
+  if (
+    challenge.status === 'settled' &&
+    challenge.result?.challengerScore === challengerScore &&
+    challenge.result.opponentScore === opponentScore &&
+    challenge.result.winner === winner
+  ) {
+    return challenge;
+  }
+
+  return {
+    ...challenge,
+    status: 'settled',
+    result: { challengerScore, opponentScore, winner, settledAt: now.toISOString() },
+    voidReason: null,
+  };
+};
+
+export const settleChallenges = (
+  challenges: Challenge[],
+  users: LeagueUsers,
+  now: Date = new Date(),
+): Challenge[] => challenges.map((challenge) => settleChallenge(challenge, users, now));
+
+/** Net stake points a player has won (or lost) across settled challenges. */
+export const getChallengePoints = (challenges: Challenge[], username: string): number =>
+  challenges.reduce((total, challenge) => {
+    const winner = challenge.result?.winner;
+
+    if (challenge.status !== 'settled' || !winner) {
+      return total;
+    }
+
+    if (winner === username) {
+      return total + challenge.stake;
+    }
+
+    const isLoser = challenge.challenger === username || challenge.opponent === username;
+    return isLoser ? total - challenge.stake : total;
+  }, 0);
+
+/** Win, draw and stake totals for every pair of players with a settled challenge. */
+export const getHeadToHeadRecords = (challenges: Challenge[]): HeadToHeadRecord[] => {
+  const records = new Map<string, HeadToHeadRecord>();
+
+  challenges
+    .filter((challenge) => challenge.status === 'settled' && challenge.result)
+    .forEach((challenge) => {
+      const players = [challenge.challenger, challenge.opponent].sort() as [string, string];
+      const key = JSON.stringify(players);
+      const record = records.get(key) ?? {
+        players,
+        wins: { [players[0]]: 0, [players[1]]: 0 },
+        draws: 0,
+        netPoints: { [players[0]]: 0, [players[1]]: 0 },
+        settled: 0,
+      };
+      const winner = challenge.result?.winner;
+
+      record.settled += 1;
+
+      if (winner) {
+        const loser = winner === players[0] ? players[1] : players[0];
+        record.wins[winner] += 1;
+        record.netPoints[winner] += challenge.stake;
+        record.netPoints[loser] -= challenge.stake;
+      } else {
+        record.draws += 1;
+      }
+
+      records.set(key, record);
+    });
+
+  return [...records.values()].sort(
+    (a, b) => b.settled - a.settled || a.players.join().localeCompare(b.players.join()),
+  );
+};
+
+/**
+ * Unions challenges by id. When both sides know a challenge, the copy further along
+ * (open, then accepted or declined, then settled or void) wins, and the existing copy wins ties.
+ */
+export const mergeChallenges = (existing: Challenge[], incoming: Challenge[]): Challenge[] => {
+  const merged = new Map(existing.map((challenge) => [challenge.id, challenge]));
+
+  incoming.forEach((challenge) => {
+    const current = merged.get(challenge.id);
+
+    if (!current || STATUS_PROGRESS[challenge.status] > STATUS_PROGRESS[current.status]) {
+      merged.set(challenge.id, challenge);
+    }
+  });
+
+  return [...merged.values()];
+};
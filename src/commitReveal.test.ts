@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  checkPredictionIntegrity,
+  commitPrediction,
+  generateNonce,
+  getWindowOpening,
+  publishCommitments,
+  verifyReveal,
+} from './commitReveal.js';
+import { createLeague, mergeLeagueSeasonUsers } from './league.js';
+import {
+  mergeLeagueUsers,
+  PREDICTION_PERIODS,
+  sanitizeUserEntry,
+  type Prediction,
+} from './prediction.js';
+import { getPredictionTargetDate } from './tradingCalendar.js';
+
+describe('prediction commit-reveal', () => {
+  const nonce = 'a1b2c3d4';
+  // Made at 10:00 New York time the day before the target session.
+  const unsigned: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T15:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Alpha',
+  };
+  const committed: Prediction = { ...unsigned, ...commitPrediction(unsigned, nonce) };
+
+  it('hashes the committed fields with the nonce', () => {
+    expect(committed.commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(commitPrediction({ ...unsigned, symbol: ' aapl ' }, nonce).commitment).toBe(
+      committed.commitment,
+    );
+    expect(verifyReveal(committed)).toBe(true);
+    expect(verifyReveal({ ...committed, prediction: 'down' })).toBe(false);
+    expect(verifyReveal({ ...committed, madeAt: '2024-03-03T15:00:00.000Z' })).toBe(false);
+    expect(generateNonce()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateNonce()).not.toBe(generateNonce());
+  });
+
+  it('rejects edits to the target date, horizon, confidence or magnitude target', () => {
+    const detailed: Prediction = {
+      ...unsigned,
+      period: 'custom',
+      // Sessions of 5, 6 and 7 March, all after `madeAt`.
+      targetDate: '2024-03-07',
+      horizonDays: 3,
+      confidence: 70,
+      target: { kind: 'percent-range', minPercent: 2, maxPercent: 4 },
+    };
+    const sealed: Prediction = { ...detailed, ...commitPrediction(detailed, nonce) };
+    const ledger = publishCommitments(
+      {},
+      [sealed.commitment as string],
+      new Date('2024-03-04T16:00:00Z'),
+    );
+    const edits: Partial<Prediction>[] = [
+      { targetDate: '2024-03-11' },
+      { horizonDays: 1 },
+      { horizonDays: undefined },
+      { confidence: 95 },
+      { confidence: undefined },
+      { target: { kind: 'percent-range', minPercent: 8, maxPercent: 12 } },
+      { target: { kind: 'price', price: 110 } },
+      { target: undefined },
+    ];
+
+    expect(checkPredictionIntegrity(sealed, { mode: 'strict', ledger })).toBeNull();
+    expect(
+      commitPrediction(
+        { ...detailed, target: { maxPercent: 4, minPercent: 2, kind: 'percent-range' } },
+        nonce,
+      ).commitment,
+    ).toBe(sealed.commitment);
+    edits.forEach((edit) => {
+      expect(checkPredictionIntegrity({ ...sealed, ...edit }, { mode: 'strict', ledger })).toBe(
+        'commitment-mismatch',
+      );
+    });
+    // A day call moved from 5 to 8 March after it was committed.
+    expect(
+      checkPredictionIntegrity(
+        { ...committed, targetDate: '2024-03-08' },
+        {
+          mode: 'strict',
+          ledger: publishCommitments(
+            {},
+            [committed.commitment as string],
+            new Date('2024-03-04T16:00:00Z'),
+          ),
+        },
+      ),
+    ).toBe('commitment-mismatch');
+  });
+
+  it('finds when the prediction window opens', () => {
+    expect(getWindowOpening(unsigned)).toBe('2024-03-05T09:30');
+    // Week of Good Friday 2024: the span starts on Monday 25 March.
+    expect(getWindowOpening({ ...unsigned, period: 'week', targetDate: '2024-03-28' })).toBe(
+      '2024-03-25T09:30',
+    );
+  });
+
+  it('trusts the target dates the app picks', () => {
+    // Wednesday 10:00 New York time, mid-week, mid-month and mid-quarter.
+    const madeAt = '2024-03-06T15:00:00.000Z';
+
+    PREDICTION_PERIODS.forEach((period) => {
+      const horizonDays = period === 'custom' ? 3 : undefined;
+      const created: Prediction = {
+        ...unsigned,
+        period,
+        madeAt,
+        targetDate: getPredictionTargetDate(period, new Date(madeAt), { horizonDays }),
+        ...(horizonDays ? { horizonDays } : {}),
+      };
+
+      const committedCall = { ...created, ...commitPrediction(created) };
+      expect(checkPredictionIntegrity(committedCall, { mode: 'strict' })).toBeNull();
+    });
+  });
+
+  it('flags late, missing, mismatched and unpublished commitments', () => {
+    const late = { ...unsigned, madeAt: '2024-03-05T14:31:00.000Z' };
+
+    expect(checkPredictionIntegrity(committed)).toBeNull();
+    expect(checkPredictionIntegrity(late)).toBe('late');
+    expect(checkPredictionIntegrity({ ...late, madeAt: '2024-03-05T14:29:00.000Z' })).toBeNull();
+    expect(checkPredictionIntegrity(unsigned)).toBeNull();
+    expect(checkPredictionIntegrity(unsigned, { mode: 'strict' })).toBe('missing-commitment');
+    expect(checkPredictionIntegrity({ ...committed, nonce: 'guess' })).toBe('commitment-mismatch');
+    expect(checkPredictionIntegrity(late, { mode: 'off' })).toBeNull();
+
+    const early = publishCommitments(
+      {},
+      [committed.commitment as string],
+      new Date('2024-03-04T16:00:00Z'),
+    );
+    const tooLate = publishCommitments(
+      {},
+      [committed.commitment as string],
+      new Date('2024-03-05T15:00:00Z'),
+    );
+
+    expect(
+      publishCommitments(
+        tooLate,
+        [committed.commitment as string],
+        new Date('2024-03-04T16:00:00Z'),
+      ),
+    ).toEqual(early);
+    expect(checkPredictionIntegrity(committed, { ledger: early })).toBeNull();
+    expect(checkPredictionIntegrity(committed, { ledger: tooLate })).toBe('late-commitment');
+    expect(checkPredictionIntegrity(committed, { ledger: {} })).toBe('unpublished-commitment');
+  });
+
+  it('flags suspicious predictions in merges and drops them in strict leagues', () => {
+    const late = { ...unsigned, id: 2, madeAt: '2024-03-05T18:00:00.000Z' };
+    const incoming = {
+      Alpha: {
+        predictions: [committed, late, { ...unsigned, id: 3 }],
+        updatedAt: '2024-03-06T00:00:00.000Z',
+      },
+    };
+
+    const flagged = mergeLeagueUsers({}, incoming);
+    expect(flagged.mergedUsers.Alpha.predictions).toHaveLength(3);
+    expect(flagged.flagged).toEqual([
+      { username: 'Alpha', predictionId: 2, issue: 'late', rejected: false },
+    ]);
+
+    const strict = mergeLeagueUsers({}, incoming, { integrity: 'strict' });
+    expect(strict.mergedUsers.Alpha.predictions.map((prediction) => prediction.id)).toEqual([1]);
+    expect(strict.mergedUsers.Alpha.pointsS1).toBe(1);
+    expect(
+      strict.flagged.map(({ predictionId, issue, rejected }) => [predictionId, issue, rejected]),
+    ).toEqual([
+      [2, 'late', true],
+      [3, 'missing-commitment', true],
+    ]);
+
+    const league = createLeague({
+      id: 'spring',
+      name: 'Spring Cup',
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      rules: { requireCommitments: true },
+    });
+    expect(mergeLeagueSeasonUsers(league, incoming).mergedUsers.Alpha.predictions).toHaveLength(1);
+  });
+
+  it('keeps commitments and nonces through sanitization', () => {
+    const sanitized = sanitizeUserEntry('Alpha', {
+      predictions: [committed, { ...committed, id: 2, commitment: 'not-a-hash', nonce: '' }],
+    });
+
+    expect(sanitized.predictions[0]).toMatchObject({ commitment: committed.commitment, nonce });
+    expect('commitment' in sanitized.predictions[1]).toBe(false);
+    expect('nonce' in sanitized.predictions[1]).toBe(false);
+  });
+});
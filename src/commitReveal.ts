@@ -0,0 +1,184 @@
+import { type Prediction } from './prediction.js';
+import { getPredictionWindow } from './predictionResolver.js';
+import { sha256Hex } from './sha256.js';
+import {
+  DEFAULT_EXCHANGE,
+  getExchangeDateTime,
+  getSessionOpening,
+  type ExchangeId,
+} from './tradingCalendar.js';
+
+/**
+ * Why a prediction's timing or commitment cannot be trusted:
+ * - `late`: `madeAt` is at or after the open of the prediction window's first session.
+ * - `missing-commitment`: no commitment or nonce (only an issue in strict mode).
+ * - `commitment-mismatch`: the revealed fields and nonce do not hash to the commitment.
+ * - `unpublished-commitment`: the commitment never appeared in the shared ledger.
+ * - `late-commitment`: the ledger first saw the commitment after the window opened.
+ */
+export type IntegrityIssue =
+  | 'late'
+  | 'missing-commitment'
+  | 'commitment-mismatch'
+  | 'unpublished-commitment'
+  | 'late-commitment';
+
+/** `flag` reports problem predictions but keeps them; `strict` also drops them. */
+export type IntegrityMode = 'off' | 'flag' | 'strict';
+
+/** Commitment hash to the ISO time it was first shared with the league. */
+export type CommitmentLedger = Record<string, string>;
+
+export type CommitmentFields = Pick<
+  Prediction,
+  | 'symbol'
+  | 'prediction'
+  | 'period'
+  | 'madeAt'
+  | 'targetDate'
+  | 'horizonDays'
+  | 'confidence'
+  | 'target'
+>;
+
+export interface PredictionCommit {
+  commitment: string;
+  /** Keep private until resolution; revealing it lets anyone check the commitment. */
+  nonce: string;
+}
+
+export interface IntegrityOptions {
+  mode?: IntegrityMode;
+  ledger?: CommitmentLedger;
+  exchange?: ExchangeId;
+}
+
+const NONCE_BYTES = 16;
+
+export const generateNonce = (): string =>
+  Array.from(globalThis.crypto.getRandomValues(new Uint8Array(NONCE_BYTES)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+
+/** Fixed-order form of a magnitude target, so key order never changes the hash. */
+const serializeTarget = (target: CommitmentFields['target']): unknown[] | null => {
+  if (!target) {
+    return null;
+  }
+
+  return target.kind === 'price'
+    ? [target.kind, target.price]
+    : [target.kind, target.minPercent, target.maxPercent];
+};
+
+/** Hashes every field that decides how the call is scored, so none can be edited later. */
+export const hashCommitment = (fields: CommitmentFields, nonce: string): string =>
+  sha256Hex(
+    JSON.stringify([
+      fields.symbol.trim().toUpperCase(),
+      fields.prediction,
+      fields.period,
+      fields.madeAt,
+      fields.targetDate,
+      fields.horizonDays ?? null,
+      fields.confidence ?? null,
+      serializeTarget(fields.target),
+      nonce,
+    ]),
+  );
+
+/** Creates the commitment to record (and share) at prediction time. */
+export const commitPrediction = (
+  fields: CommitmentFields,
+  nonce: string = generateNonce(),
+): PredictionCommit => ({ commitment: hashCommitment(fields, nonce), nonce });
+
+/** Checks a revealed prediction against its commitment. */
+export const verifyReveal = (prediction: Prediction): boolean =>
+  Boolean(prediction.commitment && prediction.nonce) &&
+  hashCommitment(prediction, prediction.nonce as string) === prediction.commitment;
+
+/** Records commitments as seen at `seenAt`, keeping the earliest sighting of each. */
+export const publishCommitments = (
+  ledger: CommitmentLedger,
+  commitments: string[],
+  seenAt: Date = new Date(),
+): CommitmentLedger => {
+  const seen = seenAt.toISOString();
+  const next: CommitmentLedger = { ...ledger };
+
+  commitments.forEach((commitment) => {
+    if (!next[commitment] || Date.parse(seen) < Date.parse(next[commitment])) {
+      next[commitment] = seen;
+    }
+  });
+
+  return next;
+};
+
+const toExchangeMoment = (exchange: ExchangeId, timestamp: string): string | null => {
+  const instant = new Date(timestamp);
+
+  if (Number.isNaN(instant.getTime())) {
+    return null;
+  }
+
+  const { date, time } = getExchangeDateTime(exchange, instant);
+  return `${date}T${time}`;
+};
+
+/**
+ * Exchange-local `YYYY-MM-DDTHH:MM` at which the prediction's window opens. Uses the same
+ * opening as `getPredictionTargetDate`, so calls the app creates are never late.
+ */
+export const getWindowOpening = (
+  prediction: Prediction,
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+): string | null => {
+  const window = getPredictionWindow(prediction, exchange);
+  return window ? getSessionOpening(exchange, window.startDate) : null;
+};
+
+const isAtOrAfter = (exchange: ExchangeId, timestamp: string, opening: string): boolean => {
+  const moment = toExchangeMoment(exchange, timestamp);
+  return moment === null || moment >= opening;
+};
+
+/** Returns the first integrity problem with a prediction, or null when it can be trusted. */
+export const checkPredictionIntegrity = (
+  prediction: Prediction,
+  options: IntegrityOptions = {},
+): IntegrityIssue | null => {
+  const mode = options.mode ?? 'flag';
+  const exchange = options.exchange ?? DEFAULT_EXCHANGE;
+
+  if (mode === 'off') {
+    return null;
+  }
+
+  const opening = getWindowOpening(prediction, exchange);
+
+  if (opening && isAtOrAfter(exchange, prediction.madeAt, opening)) {
+    return 'late';
+  }
+
+  if (!prediction.commitment || !prediction.nonce) {
+    return mode === 'strict' ? 'missing-commitment' : null;
+  }
+
+  if (!verifyReveal(prediction)) {
+    return 'commitment-mismatch';
+  }
+
+  if (!options.ledger) {
+    return null;
+  }
+
+  const publishedAt = options.ledger[prediction.commitment];
+
+  if (!publishedAt) {
+    return 'unpublished-commitment';
+  }
+
+  return opening && isAtOrAfter(exchange, publishedAt, opening) ? 'late-commitment' : null;
+};
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import { BOT_USERNAMES } from './bots.js';
+import { getCrowdScorecard, getCrowdViews } from './consensus.js';
+import {
+  sanitizeUserEntry,
+  type LeagueUsers,
+  type Prediction,
+  type TrendDirection,
+} from './prediction.js';
+
+let nextId = 1;
+
+const call = (
+  user: string,
+  prediction: TrendDirection,
+  window: Pick<Prediction, 'symbol' | 'period' | 'targetDate'>,
+  prices: [number, number] | null,
+  madeAt = `${window.targetDate}T13:00:00.000Z`,
+): Prediction => {
+  nextId += 1;
+  return {
+    id: nextId,
+    ...window,
+    prediction,
+    madeAt,
+    openPrice: prices?.[0] ?? null,
+    closePrice: prices?.[1] ?? null,
+    status: prices ? 'resolved' : 'pending',
+    user,
+  };
+};
+
+const history = { symbol: 'MSFT', period: 'day', targetDate: '2024-03-01' } as const;
+const dayCall = { symbol: 'aapl', period: 'day', targetDate: '2024-03-05' } as const;
+const weekCall = { symbol: 'MSFT', period: 'week', targetDate: '2024-03-08' } as const;
+const openCall = { symbol: 'TSLA', period: 'day', targetDate: '2024-04-05' } as const;
+const up: [number, number] = [100, 110];
+const down: [number, number] = [170.76, 170.12];
+
+const league = (entries: Record<string, Prediction[]>): LeagueUsers =>
+  Object.fromEntries(
+    Object.entries(entries).map(([username, predictions]) => [
+      username,
+      sanitizeUserEntry(username, { predictions }),
+    ]),
+  );
+
+const users = league({
+  Alice: [
+    call('Alice', 'up', history, up),
+    call('Alice', 'down', dayCall, down),
+    call('Alice', 'up', weekCall, [100, 105]),
+    call('Alice', 'up', openCall, null, '2024-04-04T13:00:00.000Z'),
+    call('Alice', 'down', openCall, null, '2024-04-04T15:00:00.000Z'),
+  ],
+  Bob: [
+    call('Bob', 'up', history, up),
+    call('Bob', 'up', dayCall, down),
+    call('Bob', 'down', openCall, null),
+  ],
+  Carol: [
+    call('Carol', 'down', history, up),
+    call('Carol', 'down', { ...dayCall, symbol: 'AAPL' }, down),
+    call('Carol', 'down', weekCall, [100, 105]),
+  ],
+  Dave: [call('Dave', 'up', { symbol: 'NVDA', period: 'day', targetDate: '2024-03-05' }, null)],
+  [BOT_USERNAMES['always-up']]: [call(BOT_USERNAMES['always-up'], 'up', dayCall, down)],
+});
+
+describe('getCrowdViews', () => {
+  const views = getCrowdViews(users);
+
+  it('groups the latest call of each player by symbol and window', () => {
+    expect(views.map(({ symbol, targetDate }) => [symbol, targetDate])).toEqual([
+      ['TSLA', '2024-04-05'],
+      ['MSFT', '2024-03-08'],
+      ['AAPL', '2024-03-05'],
+      ['MSFT', '2024-03-01'],
+    ]);
+    expect(views[0]).toMatchObject({
+      upCount: 0,
+      downCount: 2,
+      upShare: 0,
+      consensus: 'down',
+      outcome: null,
+    });
+    expect(views[2].votes.map((vote) => vote.username)).toEqual(['Alice', 'Bob', 'Carol']);
+  });
+
+  it('weights each vote by the accuracy known before the window', () => {
+    const [, week, day, first] = views;
+
+    expect(first.votes.map((vote) => vote.weight)).toEqual([0.5, 0.5, 0.5]);
+    expect(day.votes.map((vote) => vote.weight)).toEqual([2 / 3, 2 / 3, 1 / 3]);
+    expect(day.weightedUpShare).toBeCloseTo(0.4);
+    expect(week).toMatchObject({
+      consensus: null,
+      weightedConsensus: 'up',
+      outcome: {
+        actual: 'up',
+        consensusCorrect: null,
+        weightedConsensusCorrect: true,
+        individualHitRate: 0.5,
+        beatAverage: null,
+      },
+    });
+    expect(week.weightedUpShare).toBeCloseTo(0.6);
+  });
+
+  it('compares the consensus with the players it came from', () => {
+    expect(views[2].outcome).toEqual({
+      actual: 'down',
+      consensusCorrect: true,
+      weightedConsensusCorrect: true,
+      individualHitRate: 2 / 3,
+      beatAverage: true,
+    });
+  });
+
+  it('can include lone callers and bots', () => {
+    const solo = getCrowdViews(users, { minPlayers: 1, includeBots: true });
+
+    expect(solo.find((view) => view.symbol === 'NVDA')?.votes).toHaveLength(1);
+    expect(solo.find((view) => view.symbol === 'AAPL')?.upCount).toBe(2);
+    expect(() => getCrowdViews(users, { minPlayers: 0 })).toThrow(RangeError);
+  });
+});
+
+describe('getCrowdScorecard', () => {
+  it('pits the crowd against the average player over resolved windows', () => {
+    const scorecard = getCrowdScorecard(getCrowdViews(users));
+
+    expect(scorecard).toMatchObject({
+      resolvedWindows: 3,
+      consensusHitRate: 1,
+      weightedConsensusHitRate: 1,
+      crowdBeatAverage: true,
+    });
+    expect(scorecard.averageIndividualHitRate).toBeCloseTo((1 + 0.5 + 1 / 3) / 3);
+    expect(getCrowdScorecard([])).toEqual({
+      resolvedWindows: 0,
+      consensusHitRate: null,
+      weightedConsensusHitRate: null,
+      averageIndividualHitRate: null,
+      crowdBeatAverage: null,
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { isBotUsername } from './bots.js';
+import {
+  getActualDirection,
+  type LeagueUsers,
+  type Prediction,
+  type PredictionPeriod,
+  type TrendDirection,
+} from './prediction.js';
+
+export interface CrowdVote {
+  username: string;
+  prediction: TrendDirection;
+  /** The player's smoothed hit rate on windows that closed before this one. */
+  weight: number;
+  correct: boolean | null;
+}
+
+export interface CrowdOutcome {
+  actual: TrendDirection;
+  /** Null when the crowd was split evenly. */
+  consensusCorrect: boolean | null;
+  weightedConsensusCorrect: boolean | null;
+  /** Share of the crowd that called the window correctly. */
+  individualHitRate: number;
+  /** Null when there was no consensus to compare. */
+  beatAverage: boolean | null;
+}
+
+/** Every player's latest call on one symbol and target window. */
+export interface CrowdView {
+  symbol: string;
+  period: PredictionPeriod;
+  targetDate: string;
+  horizonDays?: number;
+  votes: CrowdVote[];
+  upCount: number;
+  downCount: number;
+  upShare: number;
+  /** Majority direction, or null on an even split. */
+  consensus: TrendDirection | null;
+  weightedUpShare: number;
+  weightedConsensus: TrendDirection | null;
+  /** Null until the window has resolved. */
+  outcome: CrowdOutcome | null;
+}
+
+export interface CrowdScorecard {
+  resolvedWindows: number;
+  consensusHitRate: number | null;
+  weightedConsensusHitRate: number | null;
+  /** Mean of each player's hit rate over the resolved windows they called. */
+  averageIndividualHitRate: number | null;
+  crowdBeatAverage: boolean | null;
+}
+
+export interface CrowdOptions {
+  /** Windows called by fewer players are left out; defaults to 2. */
+  minPlayers?: number;
+  /** Baseline bots are left out of the crowd unless this is set. */
+  includeBots?: boolean;
+}
+
+export const DEFAULT_MIN_CROWD = 2;
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const getWindowKey = (prediction: Prediction): string =>
+  JSON.stringify([
+    normalizeSymbol(prediction.symbol),
+    prediction.period,
+    prediction.targetDate,
+    prediction.horizonDays ?? null,
+  ]);
+
+const ratio = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null);
+
+/**
+ * Laplace-smoothed hit rate over calls that resolved before `targetDate`, so a player with no
+ * track record weighs 0.5 and later results never leak into earlier consensus.
+ */
+const getHistoricalAccuracy = (predictions: Prediction[], targetDate: string): number => {
+  const outcomes = predictions
+    .filter((prediction) => prediction.targetDate < targetDate)
+    .map((prediction) => {
+      const actual = getActualDirection(prediction);
+      return actual === null ? null : actual === prediction.prediction;
+    })
+    .filter((outcome): outcome is boolean => outcome !== null);
+
+  return (outcomes.filter(Boolean).length + 1) / (outcomes.length + 2);
+};
+
+const getMajority = (up: number, down: number): TrendDirection | null => {
+  if (up === down) {
+    return null;
+  }
+
+  return up > down ? 'up' : 'down';
+};
+
+const isCorrect = (call: TrendDirection | null, actual: TrendDirection): boolean | null =>
+  call === null ? null : call === actual;
+
+const describeWindow = (latest: Prediction[], users: LeagueUsers): CrowdView => {
+  const [first] = latest;
+  const actual = latest.map(getActualDirection).find((direction) => direction !== null) ?? null;
+  const votes = latest
+    .map(
+      (prediction): CrowdVote => ({
+        username: prediction.user,
+        prediction: prediction.prediction,
+        weight: getHistoricalAccuracy(users[prediction.user].predictions, first.targetDate),
+        correct: actual === null ? null : prediction.prediction === actual,
+      }),
+    )
+    .sort((a, b) => a.username.localeCompare(b.username));
+  const upCount = votes.filter((vote) => vote.prediction === 'up').length;
+  const downCount = votes.length - upCount;
+  const upWeight = votes
+    .filter((vote) => vote.prediction === 'up')
+    .reduce((sum, vote) => sum + vote.weight, 0);
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+  const consensus = getMajority(upCount, downCount);
+  const weightedConsensus = getMajority(upWeight, totalWeight - upWeight);
+
+  const view: CrowdView = {
+    symbol: normalizeSymbol(first.symbol),
+    period: first.period,
+    targetDate: first.targetDate,
+    votes,
+    upCount,
+    downCount,
+    upShare: upCount / votes.length,
+    consensus,
+    weightedUpShare: totalWeight > 0 ? upWeight / totalWeight : 0,
+    weightedConsensus,
+    outcome: null,
+  };
+
+  if (first.horizonDays !== undefined) {
+    view.horizonDays = first.horizonDays;
+  }
+
+  if (actual !== null) {
+    const individualHitRate = votes.filter((vote) => vote.correct).length / votes.length;
+    const consensusCorrect = isCorrect(consensus, actual);
+
+    view.outcome = {
+      actual,
+      consensusCorrect,
+      weightedConsensusCorrect: isCorrect(weightedConsensus, actual),
+      individualHitRate,
+      beatAverage: consensusCorrect === null ? null : Number(consensusCorrect) > individualHitRate,
+    };
+  }
+
+  return view;
+};
+
+/**
+ * Groups the league's predictions by symbol and target window and summarises each crowd,
+ * newest target first. Only a player's latest call on a window counts.
+ */
+export const getCrowdViews = (users: LeagueUsers, options: CrowdOptions = {}): CrowdView[] => {
+  const minPlayers = options.minPlayers ?? DEFAULT_MIN_CROWD;
+
+  if (!Number.isInteger(minPlayers) || minPlayers < 1) {
+    throw new RangeError('A crowd needs a whole number of players, at least one.');
+  }
+
+  const windows = new Map<string, Map<string, Prediction>>();
+
+  Object.entries(users)
+    .filter(([username]) => options.includeBots || !isBotUsername(username))
+    .forEach(([username, entry]) => {
+      entry.predictions.forEach((prediction) => {
+        const key = getWindowKey(prediction);
+        const calls = windows.get(key) ?? new Map<string, Prediction>();
+        const known = calls.get(username);
+
+        if (!known || Date.parse(prediction.madeAt) > Date.parse(known.madeAt)) {
+          calls.set(username, { ...prediction, user: username });
+        }
+
+        windows.set(key, calls);
+      });
+    });
+
+  return [...windows.values()]
+    .filter((calls) => calls.size >= minPlayers)
+    .map((calls) => describeWindow([...calls.values()], users))
+    .sort(
+      (a, b) =>
+        b.targetDate.localeCompare(a.targetDate) ||
+        a.symbol.localeCompare(b.symbol) ||
+        a.period.localeCompare(b.period) ||
+        (a.horizonDays ?? 0) - (b.horizonDays ?? 0),
+    );
+};
+
+/** Whether, across resolved windows, following the crowd beat the typical player. */
+export const getCrowdScorecard = (views: CrowdView[]): CrowdScorecard => {
+  const resolved = views.filter((view) => view.outcome !== null);
+  const decided = resolved.filter((view) => view.outcome?.consensusCorrect !== null);
+  const weighted = resolved.filter((view) => view.outcome?.weightedConsensusCorrect !== null);
+  const players = new Map<string, { hits: number; count: number }>();
+
+  resolved.forEach((view) => {
+    view.votes.forEach((vote) => {
+      const record = players.get(vote.username) ?? { hits: 0, count: 0 };
+      players.set(vote.username, {
+        hits: record.hits + (vote.correct ? 1 : 0),
+        count: record.count + 1,
+      });
+    });
+  });
+
+  const consensusHitRate = ratio(
+    decided.filter((view) => view.outcome?.consensusCorrect).length,
+    decided.length,
+  );
+  const averageIndividualHitRate = ratio(
+    [...players.values()].reduce((sum, { hits, count }) => sum + hits / count, 0),
+    players.size,
+  );
+
+  return {
+    resolvedWindows: resolved.length,
+    consensusHitRate,
+    weightedConsensusHitRate: ratio(
+      weighted.filter((view) => view.outcome?.weightedConsensusCorrect).length,
+      weighted.length,
+    ),
+    averageIndividualHitRate,
+    crowdBeatAverage:
+      consensusHitRate === null || averageIndividualHitRate === null
+        ? null
+        : consensusHitRate > averageIndividualHitRate,
+  };
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseDailySeriesResponse } from './alphaVantage.js';
+import {
+  canonicalize,
+  generateSigningKeyPair,
+  importSignedLeagueData,
+  signLeagueExport,
+  signUserEntry,
+  verifyUserEntry,
+} from './exportSigning.js';
+import aaplDaily from './fixtures/timeSeriesDaily.AAPL.json';
+import { createLeagueExport } from './leagueExport.js';
+import { sanitizeUserEntry, type LeagueEntry, type Prediction } from './prediction.js';
+
+describe('signed exports', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-26T15:00:00.000Z',
+    targetDate: '2024-03-27',
+    openPrice: 170.41,
+    closePrice: 173.31,
+    status: 'resolved',
+    user: 'Alpha',
+  };
+
+  const entry: LeagueEntry = sanitizeUserEntry('Alpha', {
+    predictions: [basePrediction],
+    updatedAt: '2024-03-28T00:00:00.000Z',
+  });
+
+  const exportFor = (entries: Record<string, LeagueEntry>) =>
+    createLeagueExport({ users: entries, appVersion: '1.0.0', leagueId: 'spring' });
+
+  it('canonicalizes objects independent of key order', () => {
+    expect(canonicalize({ b: 1, a: [true, undefined, { d: null, c: 'x' }], skip: undefined })).toBe(
+      '{"a":[true,null,{"c":"x","d":null}],"b":1}',
+    );
+  });
+
+  it('signs and verifies entries over their sanitized predictions', async () => {
+    const keyPair = await generateSigningKeyPair();
+    const signature = await signUserEntry('Alpha', entry, 'spring', keyPair);
+
+    expect(signature.algorithm).toBe('ECDSA-P256-SHA256');
+    expect(await verifyUserEntry('Alpha', { ...entry, pointsS1: 50 }, 'spring', signature)).toBe(
+      true,
+    );
+    expect(
+      await verifyUserEntry(
+        'Alpha',
+        { ...entry, predictions: [{ ...basePrediction, closePrice: 200 }] },
+        'spring',
+        signature,
+      ),
+    ).toBe(false);
+    expect(await verifyUserEntry('Mallory', entry, 'spring', signature)).toBe(false);
+    expect(await verifyUserEntry('Alpha', entry, 'winter', signature)).toBe(false);
+    expect(
+      await verifyUserEntry('Alpha', entry, 'spring', { ...signature, publicKey: '###' }),
+    ).toBe(false);
+  });
+
+  it('pins first-seen keys and rejects tampered or re-keyed entries', async () => {
+    const original = await generateSigningKeyPair();
+    const impostor = await generateSigningKeyPair();
+    const signed = await signLeagueExport(exportFor({ Alpha: entry }), { Alpha: original });
+
+    const first = await importSignedLeagueData({}, JSON.stringify(signed));
+    expect(first.added).toEqual(['Alpha']);
+    expect(first.verification.Alpha.status).toBe('verified');
+    expect(first.pins.Alpha).toBe(signed.signatures?.Alpha.publicKey);
+
+    const tampered = {
+      ...signed,
+      users: {
+        Alpha: { ...entry, predictions: [{ ...basePrediction, closePrice: 250 }] },
+      },
+    };
+    const tamperedReport = await importSignedLeagueData({}, tampered, { pins: first.pins });
+    expect(tamperedReport.rejected).toEqual([
+      { username: 'Alpha', reason: 'invalid-signature', errors: [] },
+    ]);
+
+    const reKeyed = await signLeagueExport(exportFor({ Alpha: entry }), { Alpha: impostor });
+    const reKeyedReport = await importSignedLeagueData({}, reKeyed, { pins: first.pins });
+    expect(reKeyedReport.rejected[0].reason).toBe('key-mismatch');
+    expect(reKeyedReport.pins).toEqual(first.pins);
+
+    const unsigned = await importSignedLeagueData({}, exportFor({ Alpha: entry }), {
+      pins: first.pins,
+    });
+    expect(unsigned.rejected[0].reason).toBe('unsigned');
+  });
+
+  it('accepts unsigned entries only when signatures are optional', async () => {
+    const envelope = exportFor({ Bravo: sanitizeUserEntry('Bravo', entry) });
+
+    expect((await importSignedLeagueData({}, envelope)).added).toEqual(['Bravo']);
+    expect(
+      (await importSignedLeagueData({}, envelope, { requireSignatures: true })).rejected,
+    ).toEqual([{ username: 'Bravo', reason: 'unsigned', errors: [] }]);
+    expect((await importSignedLeagueData({}, '{oops')).errors[0].path).toBe('$');
+  });
+
+  it('flags recorded prices that disagree with cached market data', async () => {
+    const { bars } = parseDailySeriesResponse(aaplDaily);
+    const inflated = sanitizeUserEntry('Alpha', {
+      predictions: [basePrediction, { ...basePrediction, id: 2, closePrice: 190 }],
+    });
+
+    const report = await importSignedLeagueData({}, exportFor({ Alpha: inflated }), {
+      barsBySymbol: { AAPL: bars },
+    });
+
+    expect(report.added).toEqual(['Alpha']);
+    expect(report.verification.Alpha.priceMismatches).toEqual([
+      { predictionId: 2, symbol: 'AAPL', field: 'closePrice', recorded: 190, expected: 173.31 },
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+import { type DailyBar } from './alphaVantage.js';
+import {
+  importLeagueData,
+  parseLeagueExport,
+  SIGNATURE_ALGORITHM,
+  type EntrySignature,
+  type ImportOptions,
+  type ImportRejectionReason,
+  type ImportReport,
+  type LeagueExportEnvelope,
+} from './leagueExport.js';
+import {
+  sanitizeUserEntry,
+  type LeagueEntry,
+  type LeagueUsers,
+  type Prediction,
+} from './prediction.js';
+import { measurePredictionPrices } from './predictionResolver.js';
+
+/** Username to base64 SPKI public key, recorded the first time a signed entry is accepted. */
+export type PublicKeyPins = Record<string, string>;
+
+export type SignatureStatus = 'verified' | 'unsigned' | 'invalid-signature' | 'key-mismatch';
+
+export interface PriceMismatch {
+  predictionId: number;
+  symbol: string;
+  field: 'openPrice' | 'closePrice';
+  recorded: number | null;
+  expected: number;
+}
+
+export interface EntryVerification {
+  status: SignatureStatus;
+  publicKey: string | null;
+  priceMismatches: PriceMismatch[];
+}
+
+export interface VerifyExportOptions {
+  pins?: PublicKeyPins;
+  /** Cached daily bars keyed by symbol to check recorded prices against. */
+  barsBySymbol?: Record<string, DailyBar[]>;
+  tolerancePercent?: number;
+  subtle?: SubtleCrypto;
+}
+
+export interface SignedImportOptions extends ImportOptions, VerifyExportOptions {
+  /** Refuse unsigned entries even from players with no pinned key. */
+  requireSignatures?: boolean;
+}
+
+export interface SignedImportReport extends ImportReport {
+  verification: Record<string, EntryVerification>;
+  /** The pins passed in plus keys first seen on entries accepted by this import. */
+  pins: PublicKeyPins;
+}
+
+export const DEFAULT_PRICE_TOLERANCE_PERCENT = 0.5;
+
+const KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const getSubtle = (subtle?: SubtleCrypto): SubtleCrypto => subtle ?? globalThis.crypto.subtle;
+
+const toBase64 = (buffer: ArrayBuffer): string =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> | null => {
+  try {
+    return Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/** JSON with object keys sorted and undefined members dropped, so equal data signs equally. */
+export const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * The signed content for one player: their sanitized predictions plus the username and
+ * league, so an entry cannot be replayed under another name or in another league. Points are
+ * left out because importers recompute them.
+ */
+export const getSigningPayload = (
+  username: string,
+  entry: Partial<LeagueEntry>,
+  leagueId: string | null,
+): Uint8Array<ArrayBuffer> =>
+  new TextEncoder().encode(
+    canonicalize({
+      username,
+      leagueId,
+      predictions: sanitizeUserEntry(username, entry).predictions,
+    }),
+  );
+
+export const generateSigningKeyPair = async (subtle?: SubtleCrypto): Promise<CryptoKeyPair> =>
+  (await getSubtle(subtle).generateKey(KEY_PARAMS, true, ['sign', 'verify'])) as CryptoKeyPair;
+
+export const exportPublicKey = async (key: CryptoKey, subtle?: SubtleCrypto): Promise<string> =>
+  toBase64(await getSubtle(subtle).exportKey('spki', key));
+
+export const signUserEntry = async (
+  username: string,
+  entry: Partial<LeagueEntry>,
+  leagueId: string | null,
+  keyPair: CryptoKeyPair,
+  subtle?: SubtleCrypto,
+): Promise<EntrySignature> => {
+  const crypto = getSubtle(subtle);
+  const signature = await crypto.sign(
+    SIGN_PARAMS,
+    keyPair.privateKey,
+    getSigningPayload(username, entry, leagueId),
+  );
+
+  return {
+    algorithm: SIGNATURE_ALGORITHM,
+    publicKey: await exportPublicKey(keyPair.publicKey, crypto),
+    signature: toBase64(signature),
+  };
+};
+
+/** Resolves false rather than throwing for malformed keys or signatures. */
+export const verifyUserEntry = async (
+  username: string,
+  entry: Partial<LeagueEntry>,
+  leagueId: string | null,
+  signature: EntrySignature,
+  subtle?: SubtleCrypto,
+): Promise<boolean> => {
+  const crypto = getSubtle(subtle);
+  const keyData = fromBase64(signature.publicKey);
+  const signatureData = fromBase64(signature.signature);
+
+  if (!keyData || !signatureData) {
+    return false;
+  }
+
+  try {
+    const publicKey = await crypto.importKey('spki', keyData, KEY_PARAMS, false, ['verify']);
+    return await crypto.verify(
+      SIGN_PARAMS,
+      publicKey,
+      signatureData,
+      getSigningPayload(username, entry, leagueId),
+    );
+  } catch {
+    return false;
+  }
+};
+
+/** Signs every user in the envelope that has a key pair, replacing any earlier signature. */
+export const signLeagueExport = async (
+  envelope: LeagueExportEnvelope,
+  keyPairs: Record<string, CryptoKeyPair>,
+  subtle?: SubtleCrypto,
+): Promise<LeagueExportEnvelope> => {
+  const signed = await Promise.all(
+    Object.keys(envelope.users)
+      .filter((username) => keyPairs[username])
+      .map(
+        async (username) =>
+          [
+            username,
+            await signUserEntry(
+              username,
+              envelope.users[username],
+              envelope.leagueId,
+              keyPairs[username],
+              subtle,
+            ),
+          ] as const,
+      ),
+  );
+
+  return {
+    ...envelope,
+    signatures: { ...envelope.signatures, ...Object.fromEntries(signed) },
+  };
+};
+
+/** Compares resolved predictions' recorded prices with those measured from cached bars. */
+export const findPriceMismatches = (
+  predictions: Prediction[],
+  barsBySymbol: Record<string, DailyBar[]>,
+  tolerancePercent = DEFAULT_PRICE_TOLERANCE_PERCENT,
+): PriceMismatch[] =>
+  predictions
+    .filter((prediction) => prediction.status === 'resolved')
+    .flatMap((prediction) => {
+      const symbol = prediction.symbol.trim().toUpperCase();
+      const bars = barsBySymbol[symbol];
+      const expected = bars ? measurePredictionPrices(prediction, bars) : null;
+
+      if (!expected) {
+        return [];
+      }
+
+      return (['openPrice', 'closePrice'] as const)
+        .filter((field) => {
+          const recorded = prediction[field];
+          return (
+            recorded === null ||
+            (Math.abs(recorded - expected[field]) / expected[field]) * 100 > tolerancePercent
+          );
+        })
+        .map((field) => ({
+          predictionId: prediction.id,
+          symbol,
+          field,
+          recorded: prediction[field],
+          expected: expected[field],
+        }));
+    });
+
+const verifyEntry = async (
+  username: string,
+  entry: LeagueEntry,
+  envelope: LeagueExportEnvelope,
+  options: VerifyExportOptions,
+): Promise<EntryVerification> => {
+  const signature = envelope.signatures?.[username];
+  const pinned = options.pins?.[username];
+  const priceMismatches = options.barsBySymbol
+    ? findPriceMismatches(
+        sanitizeUserEntry(username, entry).predictions,
+        options.barsBySymbol,
+        options.tolerancePercent,
+      )
+    : [];
+
+  if (!signature) {
+    return { status: 'unsigned', publicKey: null, priceMismatches };
+  }
+
+  if (pinned && pinned !== signature.publicKey) {
+    return { status: 'key-mismatch', publicKey: signature.publicKey, priceMismatches };
+  }
+
+  const valid = await verifyUserEntry(
+    username,
+    entry,
+    envelope.leagueId,
+    signature,
+    options.subtle,
+  );
+
+  return {
+    status: valid ? 'verified' : 'invalid-signature',
+    publicKey: signature.publicKey,
+    priceMismatches,
+  };
+};
+
+/** Checks each user's signature against their pinned key and flags disputed prices. */
+export const verifyLeagueExport = async (
+  envelope: LeagueExportEnvelope,
+  options: VerifyExportOptions = {},
+): Promise<Record<string, EntryVerification>> => {
+  const results = await Promise.all(
+    Object.entries(envelope.users).map(
+      async ([username, entry]) =>
+        [username, await verifyEntry(username, entry, envelope, options)] as const,
+    ),
+  );
+
+  return Object.fromEntries(results);
+};
+
+const getRejection = (
+  username: string,
+  verification: EntryVerification,
+  options: SignedImportOptions,
+): ImportRejectionReason | null => {
+  if (verification.status === 'invalid-signature' || verification.status === 'key-mismatch') {
+    return verification.status;
+  }
+
+  if (
+    verification.status === 'unsigned' &&
+    (options.requireSignatures || options.pins?.[username])
+  ) {
+    return 'unsigned';
+  }
+
+  return null;
+};
+
+/**
+ * `importLeagueData` with signature checks: entries whose signature fails, whose key differs
+ * from the pinned one, or that arrive unsigned for a pinned player are rejected. Price
+ * mismatches are reported in `verification` but do not block the import.
+ */
+export const importSignedLeagueData = async (
+  existingUsers: LeagueUsers,
+  input: unknown,
+  options: SignedImportOptions = {},
+): Promise<SignedImportReport> => {
+  const parsed = parseLeagueExport(input);
+  const pins: PublicKeyPins = { ...options.pins };
+
+  if (parsed.errors.length > 0 || !parsed.document) {
+    return { ...importLeagueData(existingUsers, input, options), verification: {}, pins };
+  }
+
+  const envelope = parsed.document as unknown as LeagueExportEnvelope;
+  const checkable: LeagueExportEnvelope = {
+    ...envelope,
+    users: Object.fromEntries(
+      Object.entries(envelope.users).filter(([username]) => !parsed.userErrors[username]),
+    ),
+  };
+  const verification = await verifyLeagueExport(checkable, options);
+  const rejectUsers: Record<string, ImportRejectionReason> = { ...options.rejectUsers };
+
+  Object.entries(verification).forEach(([username, result]) => {
+    const reason = getRejection(username, result, options);
+
+    if (reason) {
+      rejectUsers[username] = reason;
+    }
+  });
+
+  const report = importLeagueData(existingUsers, input, { ...options, rejectUsers });
+
+  [...report.added, ...report.updated, ...report.unchanged].forEach((username) => {
+    const { status, publicKey } = verification[username] ?? {};
+
+    if (status === 'verified' && publicKey && !pins[username]) {
+      pins[username] = publicKey;
+    }
+  });
+
+  return { ...report, verification, pins };
+};
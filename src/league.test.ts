@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createLeague,
+  filterLeaguePredictions,
+  getSeasonStandings,
+  mergeLeagueSeasonUsers,
+  normalizeLeagueUsers,
+  rolloverSeason,
+  type League,
+} from './league.js';
+import { type Prediction } from './prediction.js';
+
+describe('leagues and seasons', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T15:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Test',
+  };
+
+  const createSpringLeague = (rules: Partial<League['rules']> = {}): League =>
+    createLeague({
+      id: 'spring',
+      name: 'Spring Cup',
+      startDate: '2024-03-01',
+      endDate: '2024-03-31',
+      rules,
+    });
+
+  it('creates leagues with default rules', () => {
+    const league = createSpringLeague();
+
+    expect(league.season).toEqual({ number: 1, startDate: '2024-03-01', endDate: '2024-03-31' });
+    expect(league.rules.scoringSystem).toBe('S1');
+    expect(league.rules.benchmarkSymbol).toBe('SPY');
+    expect(() =>
+      createLeague({ id: 'x', name: 'X', startDate: '2024-03-02', endDate: '2024-03-01' }),
+    ).toThrow(RangeError);
+  });
+
+  it('filters predictions by league, season, period and daily cap', () => {
+    const league = createSpringLeague({ allowedPeriods: ['day'], maxPredictionsPerDay: 1 });
+    const { accepted, rejected } = filterLeaguePredictions(league, [
+      basePrediction,
+      { ...basePrediction, id: 2, madeAt: '2024-03-04T18:00:00.000Z' },
+      { ...basePrediction, id: 3, leagueId: 'winter', madeAt: '2024-03-05T15:00:00.000Z' },
+      { ...basePrediction, id: 4, madeAt: '2024-02-28T15:00:00.000Z' },
+      { ...basePrediction, id: 5, period: 'week', madeAt: '2024-03-06T15:00:00.000Z' },
+      { ...basePrediction, id: 6, leagueId: 'spring', madeAt: '2024-03-07T15:00:00.000Z' },
+    ]);
+
+    expect(accepted.map((prediction) => prediction.id)).toEqual([1, 6]);
+    expect(rejected.map(({ prediction, reason }) => [prediction.id, reason])).toEqual([
+      [4, 'outside-season'],
+      [2, 'daily-limit'],
+      [3, 'other-league'],
+      [5, 'period-not-allowed'],
+    ]);
+  });
+
+  it('normalizes stored users down to the season and recomputes points', () => {
+    const league = createSpringLeague();
+    const { normalizedUsers, hasChanges } = normalizeLeagueUsers(league, {
+      Alpha: {
+        predictions: [
+          basePrediction,
+          {
+            ...basePrediction,
+            id: 2,
+            madeAt: '2024-01-02T15:00:00.000Z',
+            targetDate: '2024-01-03',
+          },
+        ],
+        pointsS1: 40,
+        pointsS2: 400,
+        pointsS3: 0,
+        updatedAt: '2024-03-05T00:00:00.000Z',
+      },
+    });
+
+    expect(normalizedUsers.Alpha.predictions).toHaveLength(1);
+    expect(normalizedUsers.Alpha.pointsS1).toBe(1);
+    expect(normalizedUsers.Alpha.updatedAt).toBe('2024-03-05T00:00:00.000Z');
+    expect(hasChanges).toBe(true);
+  });
+
+  it('merges only in-season predictions into the league', () => {
+    const league = createSpringLeague();
+    const summary = mergeLeagueSeasonUsers(league, {
+      Beta: {
+        predictions: [{ ...basePrediction, leagueId: 'winter' }],
+        pointsS1: 9,
+        updatedAt: '2024-03-06T00:00:00.000Z',
+      },
+    });
+
+    expect(summary.added).toEqual(['Beta']);
+    expect(summary.mergedUsers.Beta.predictions).toEqual([]);
+    expect(summary.mergedUsers.Beta.pointsS1).toBe(0);
+  });
+
+  it('applies the daily cap to the merged entry and reports what it drops', () => {
+    const league = createSpringLeague({ maxPredictionsPerDay: 2 });
+    const push = (ids: number[]) => ({
+      Alpha: {
+        predictions: ids.map((id) => ({
+          ...basePrediction,
+          id,
+          madeAt: `2024-03-04T15:0${id}:00.000Z`,
+        })),
+        updatedAt: '2024-03-04T16:00:00.000Z',
+      },
+    });
+
+    const first = mergeLeagueSeasonUsers(league, push([1, 2]));
+    expect(first.rejected).toEqual([]);
+
+    const stored: League = { ...league, users: first.mergedUsers };
+    const second = mergeLeagueSeasonUsers(stored, push([3, 4]));
+
+    expect(second.mergedUsers.Alpha.predictions.map(({ id }) => id)).toEqual([1, 2]);
+    expect(second.mergedUsers.Alpha).toBe(stored.users.Alpha);
+    expect(second.updated).toEqual([]);
+    expect(
+      second.rejected.map(({ username, prediction, reason }) => [username, prediction.id, reason]),
+    ).toEqual([
+      ['Alpha', 3, 'daily-limit'],
+      ['Alpha', 4, 'daily-limit'],
+    ]);
+  });
+
+  it('ranks standings by the league scoring system and archives them on rollover', () => {
+    const league: League = {
+      ...createSpringLeague({ scoringSystem: 'S2' }),
+      users: mergeLeagueSeasonUsers(createSpringLeague(), {
+        Alpha: { predictions: [basePrediction], updatedAt: '2024-03-06T00:00:00.000Z' },
+        Beta: {
+          predictions: [{ ...basePrediction, closePrice: 150 }],
+          updatedAt: '2024-03-06T00:00:00.000Z',
+        },
+      }).mergedUsers,
+    };
+
+    expect(getSeasonStandings(league).map(({ username, points }) => [username, points])).toEqual([
+      ['Beta', 50],
+      ['Alpha', 10],
+    ]);
+
+    const next = rolloverSeason(league, {
+      startDate: '2024-04-01',
+      endDate: '2024-04-30',
+      now: new Date('2024-04-01T00:00:00.000Z'),
+    });
+
+    expect(next.season).toEqual({ number: 2, startDate: '2024-04-01', endDate: '2024-04-30' });
+    expect(next.users.Beta).toMatchObject({ predictions: [], pointsS1: 0, pointsS2: 0 });
+    expect(next.archive).toHaveLength(1);
+    expect(next.archive[0]).toMatchObject({ number: 1, archivedAt: '2024-04-01T00:00:00.000Z' });
+    expect(next.archive[0].standings[0].username).toBe('Beta');
+    expect(() => rolloverSeason(next, { startDate: '2024-04-15', endDate: '2024-05-31' })).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,329 @@
+import {
+  calculateAlphaPoints,
+  calculateBrierPoints,
+  calculateSystem1Points,
+  calculateSystem2Points,
+  calculateSystem3Points,
+  DEFAULT_BENCHMARK_SYMBOL,
+  mergeLeagueUsers,
+  normalizeUsers,
+  PREDICTION_PERIODS,
+  sanitizeUserEntry,
+  type LeagueEntry,
+  type LeagueUsers,
+  type MergeOptions,
+  type MergeSummary,
+  type NormalizeResult,
+  type Prediction,
+  type PredictionPeriod,
+} from './prediction.js';
+import { DEFAULT_EXCHANGE, getExchangeDateTime } from './tradingCalendar.js';
+
+export type ScoringSystem = 'S1' | 'S2' | 'S3' | 'alpha' | 'brier';
+
+export interface LeagueRules {
+  allowedPeriods: PredictionPeriod[];
+  scoringSystem: ScoringSystem;
+  /** Per player, counted by the exchange date the prediction was made; null for no cap. */
+  maxPredictionsPerDay: number | null;
+  benchmarkSymbol: string;
+  /** Strict leagues drop predictions that are late or lack a valid commit–reveal. */
+  requireCommitments: boolean;
+}
+
+export interface Season {
+  number: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface SeasonStanding {
+  username: string;
+  points: number;
+  pointsS1: number;
+  pointsS2: number;
+  pointsS3: number;
+  predictionCount: number;
+}
+
+export interface SeasonArchive extends Season {
+  archivedAt: string;
+  standings: SeasonStanding[];
+}
+
+export interface League {
+  id: string;
+  name: string;
+  rules: LeagueRules;
+  season: Season;
+  users: LeagueUsers;
+  archive: SeasonArchive[];
+}
+
+export type LeagueRejectionReason =
+  | 'other-league'
+  | 'outside-season'
+  | 'period-not-allowed'
+  | 'daily-limit';
+
+export interface RejectedPrediction {
+  prediction: Prediction;
+  reason: LeagueRejectionReason;
+}
+
+export interface LeagueFilterResult {
+  accepted: Prediction[];
+  rejected: RejectedPrediction[];
+}
+
+export interface LeagueMergeRejection extends RejectedPrediction {
+  username: string;
+}
+
+export interface LeagueMergeSummary extends MergeSummary {
+  /** Predictions the league rules dropped once a player's copies were joined. */
+  rejected: LeagueMergeRejection[];
+}
+
+export interface CreateLeagueInput {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  rules?: Partial<LeagueRules>;
+}
+
+export interface SeasonRolloverInput {
+  startDate: string;
+  endDate: string;
+  now?: Date;
+}
+
+export const DEFAULT_LEAGUE_RULES: LeagueRules = {
+  allowedPeriods: [...PREDICTION_PERIODS],
+  scoringSystem: 'S1',
+  maxPredictionsPerDay: null,
+  benchmarkSymbol: DEFAULT_BENCHMARK_SYMBOL,
+  requireCommitments: false,
+};
+
+const SCORERS: Record<ScoringSystem, (predictions: Prediction[]) => number> = {
+  S1: calculateSystem1Points,
+  S2: calculateSystem2Points,
+  S3: calculateSystem3Points,
+  alpha: calculateAlphaPoints,
+  brier: calculateBrierPoints,
+};
+
+export const createLeague = (input: CreateLeagueInput): League => {
+  if (input.endDate < input.startDate) {
+    throw new RangeError('A league season cannot end before it starts.');
+  }
+
+  return {
+    id: input.id,
+    name: input.name,
+    rules: { ...DEFAULT_LEAGUE_RULES, ...input.rules },
+    season: { number: 1, startDate: input.startDate, endDate: input.endDate },
+    users: {},
+    archive: [],
+  };
+};
+
+export const calculateLeaguePoints = (rules: LeagueRules, predictions: Prediction[]): number =>
+  SCORERS[rules.scoringSystem](predictions);
+
+const getMadeOnDate = (prediction: Prediction): string | null => {
+  const madeAt = new Date(prediction.madeAt);
+  return Number.isNaN(madeAt.getTime()) ? null : getExchangeDateTime(DEFAULT_EXCHANGE, madeAt).date;
+};
+
+const getRuleRejection = (league: League, prediction: Prediction): LeagueRejectionReason | null => {
+  if (prediction.leagueId && prediction.leagueId !== league.id) {
+    return 'other-league';
+  }
+
+  const madeOn = getMadeOnDate(prediction);
+  const { startDate, endDate } = league.season;
+
+  if (
+    !madeOn ||
+    madeOn < startDate ||
+    prediction.targetDate < startDate ||
+    prediction.targetDate > endDate
+  ) {
+    return 'outside-season';
+  }
+
+  if (!league.rules.allowedPeriods.includes(prediction.period)) {
+    return 'period-not-allowed';
+  }
+
+  return null;
+};
+
+/**
+ * Splits one player's predictions into those that count in the league's current season and
+ * those that do not. Untagged predictions count when they fall inside the season; the daily
+ * cap keeps the earliest predictions of each day.
+ */
+export const filterLeaguePredictions = (
+  league: League,
+  predictions: Prediction[],
+): LeagueFilterResult => {
+  const result: LeagueFilterResult = { accepted: [], rejected: [] };
+  const perDayCounts = new Map<string, number>();
+  const cap = league.rules.maxPredictionsPerDay;
+
+  [...predictions]
+    .sort((a, b) => a.madeAt.localeCompare(b.madeAt) || a.id - b.id)
+    .forEach((prediction) => {
+      const reason = getRuleRejection(league, prediction);
+
+      if (reason) {
+        result.rejected.push({ prediction, reason });
+        return;
+      }
+
+      const madeOn = getMadeOnDate(prediction) as string;
+      const count = perDayCounts.get(madeOn) ?? 0;
+
+      if (cap !== null && count >= cap) {
+        result.rejected.push({ prediction, reason: 'daily-limit' });
+        return;
+      }
+
+      perDayCounts.set(madeOn, count + 1);
+      result.accepted.push(prediction);
+    });
+
+  return result;
+};
+
+const restrictEntryToLeague = (
+  league: League,
+  username: string,
+  entry: LeagueEntry,
+): LeagueEntry => {
+  const { accepted } = filterLeaguePredictions(league, entry.predictions);
+  // Rebuilding from predictions alone drops any points carried over from outside the season.
+  return sanitizeUserEntry(username, { predictions: accepted, updatedAt: entry.updatedAt });
+};
+
+/**
+ * League-aware `normalizeUsers`: sanitizes stored users and keeps only the predictions that
+ * count in the league's current season, recomputing points from them.
+ */
+export const normalizeLeagueUsers = (league: League, storedUsers: unknown): NormalizeResult => {
+  const { normalizedUsers, hasChanges } = normalizeUsers(storedUsers);
+  const leagueUsers: LeagueUsers = {};
+  let leagueChanges = hasChanges;
+
+  Object.entries(normalizedUsers).forEach(([username, entry]) => {
+    const restricted = restrictEntryToLeague(league, username, entry);
+    leagueUsers[username] = restricted;
+
+    if (restricted.predictions.length !== entry.predictions.length) {
+      leagueChanges = true;
+    }
+  });
+
+  return { normalizedUsers: leagueUsers, hasChanges: leagueChanges };
+};
+
+/**
+ * League-aware `mergeLeagueUsers`: incoming entries are restricted to the league's current
+ * season before the usual freshness comparison, so out-of-league predictions never count.
+ * The rules are applied again to each merged entry, since a daily cap can only be checked
+ * once both copies' predictions are combined; what that drops is listed in `rejected`.
+ * Leagues with `requireCommitments` always merge in strict integrity mode.
+ */
+export const mergeLeagueSeasonUsers = (
+  league: League,
+  incomingUsers: Record<string, unknown> | undefined,
+  options: MergeOptions = {},
+): LeagueMergeSummary => {
+  const { normalizedUsers: restrictedIncoming } = normalizeLeagueUsers(league, incomingUsers);
+  const summary = mergeLeagueUsers(league.users, restrictedIncoming, {
+    ...options,
+    integrity: league.rules.requireCommitments ? 'strict' : options.integrity,
+  });
+  const mergedUsers: LeagueUsers = { ...summary.mergedUsers };
+  const rejected: LeagueMergeRejection[] = [];
+
+  [...summary.added, ...summary.updated].forEach((username) => {
+    const entry = mergedUsers[username];
+    const result = filterLeaguePredictions(league, entry.predictions);
+
+    if (result.rejected.length === 0) {
+      return;
+    }
+
+    result.rejected.forEach((rejection) => rejected.push({ username, ...rejection }));
+    mergedUsers[username] = sanitizeUserEntry(username, {
+      predictions: result.accepted,
+      updatedAt: entry.updatedAt,
+    });
+  });
+
+  const updated = summary.updated.filter((username) => {
+    const stored = league.users[username];
+    const unchanged =
+      JSON.stringify(mergedUsers[username].predictions) === JSON.stringify(stored.predictions);
+
+    if (unchanged) {
+      mergedUsers[username] = stored;
+    }
+
+    return !unchanged;
+  });
+
+  return { ...summary, updated, mergedUsers, rejected };
+};
+
+export const getSeasonStandings = (league: League): SeasonStanding[] =>
+  Object.entries(league.users)
+    .map(([username, entry]) => ({
+      username,
+      points: calculateLeaguePoints(league.rules, entry.predictions),
+      pointsS1: entry.pointsS1,
+      pointsS2: entry.pointsS2,
+      pointsS3: entry.pointsS3,
+      predictionCount: entry.predictions.length,
+    }))
+    .sort((a, b) => b.points - a.points || a.username.localeCompare(b.username));
+
+/**
+ * Archives the current season's standings and starts the next season with every player kept
+ * on the roster but no predictions or points.
+ */
+export const rolloverSeason = (league: League, input: SeasonRolloverInput): League => {
+  if (input.startDate <= league.season.endDate) {
+    throw new RangeError('The next season must start after the current season ends.');
+  }
+
+  if (input.endDate < input.startDate) {
+    throw new RangeError('A league season cannot end before it starts.');
+  }
+
+  const archivedAt = (input.now ?? new Date()).toISOString();
+  const freshUsers: LeagueUsers = {};
+
+  Object.keys(league.users).forEach((username) => {
+    freshUsers[username] = sanitizeUserEntry(username, { predictions: [], updatedAt: archivedAt });
+  });
+
+  return {
+    ...league,
+    season: {
+      number: league.season.number + 1,
+      startDate: input.startDate,
+      endDate: input.endDate,
+    },
+    users: freshUsers,
+    archive: [
+      ...league.archive,
+      { ...league.season, archivedAt, standings: getSeasonStandings(league) },
+    ],
+  };
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createLeagueExport,
+  EXPORT_FORMAT,
+  importLeagueData,
+  migrateLegacyExport,
+  validateLeagueExport,
+} from './leagueExport.js';
+import { sanitizeUserEntry, type LeagueUsers, type Prediction } from './prediction.js';
+
+describe('league export format', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T15:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Alpha',
+  };
+
+  const existing: LeagueUsers = {
+    Alpha: sanitizeUserEntry('Alpha', {
+      predictions: [basePrediction],
+      updatedAt: '2024-03-05T00:00:00.000Z',
+    }),
+  };
+
+  it('creates versioned envelopes with recomputed points', () => {
+    const envelope = createLeagueExport({
+      users: { Alpha: { ...existing.Alpha, pointsS1: 99 } },
+      appVersion: '1.0.0',
+      leagueId: 'spring',
+      now: new Date('2024-03-06T12:00:00.000Z'),
+    });
+
+    expect(envelope).toMatchObject({
+      format: EXPORT_FORMAT,
+      formatVersion: 1,
+      appVersion: '1.0.0',
+      leagueId: 'spring',
+      exportedAt: '2024-03-06T12:00:00.000Z',
+    });
+    expect(envelope.users.Alpha.pointsS1).toBe(1);
+    expect(validateLeagueExport(JSON.parse(JSON.stringify(envelope)))).toEqual({
+      errors: [],
+      userErrors: {},
+    });
+  });
+
+  it('reports precise envelope and per-user errors', () => {
+    const validation = validateLeagueExport({
+      format: EXPORT_FORMAT,
+      formatVersion: 2,
+      appVersion: '1.0.0',
+      leagueId: null,
+      exportedAt: 'yesterday',
+      users: {
+        Bravo: {
+          predictions: [
+            basePrediction,
+            { ...basePrediction, period: 'fortnight' },
+            { ...basePrediction, id: '3' },
+            { ...basePrediction, id: undefined },
+          ],
+        },
+        Charlie: { predictions: 'none' },
+      },
+    });
+
+    expect(validation.errors.map((error) => error.path)).toEqual(['formatVersion', 'exportedAt']);
+    expect(validation.userErrors).toEqual({
+      Bravo: [
+        {
+          path: 'users.Bravo.predictions[1].period',
+          message: 'Unknown prediction period "fortnight".',
+        },
+        { path: 'users.Bravo.predictions[2].id', message: 'Expected a numeric prediction id.' },
+        { path: 'users.Bravo.predictions[3].id', message: 'Expected a numeric prediction id.' },
+      ],
+      Charlie: [
+        { path: 'users.Charlie.predictions', message: 'Expected an array of predictions.' },
+      ],
+    });
+    expect(validateLeagueExport([]).errors).toEqual([
+      { path: '$', message: 'Expected an object, got array.' },
+    ]);
+  });
+
+  it('migrates legacy single-user exports before merging', () => {
+    const legacy = {
+      user: 'Bravo',
+      predictions: [{ ...basePrediction, user: 'Bravo', closePrice: 90 }],
+      pointsS1: 50,
+      pointsS2: 500,
+    };
+
+    expect(migrateLegacyExport(legacy)).toMatchObject({
+      appVersion: 'legacy',
+      exportedAt: '2024-03-04T15:00:00.000Z',
+      users: { Bravo: { updatedAt: '2024-03-04T15:00:00.000Z' } },
+    });
+
+    const report = importLeagueData(existing, JSON.stringify(legacy));
+
+    expect(report.migrated).toBe(true);
+    expect(report.added).toEqual(['Bravo']);
+    expect(report.mergedUsers.Bravo.pointsS1).toBe(-1);
+    expect(report.mergedUsers.Alpha).toBe(existing.Alpha);
+  });
+
+  it('imports valid users through the merge and rejects the rest', () => {
+    const envelope = createLeagueExport({
+      users: {
+        Alpha: sanitizeUserEntry('Alpha', {
+          predictions: [basePrediction, { ...basePrediction, id: 2 }],
+          updatedAt: '2024-03-07T00:00:00.000Z',
+        }),
+        Bravo: sanitizeUserEntry('Bravo', {
+          predictions: [basePrediction],
+          updatedAt: '2024-03-01T00:00:00.000Z',
+        }),
+        Ignored: sanitizeUserEntry('Ignored', { predictions: [basePrediction] }),
+      },
+      appVersion: '1.0.0',
+      leagueId: 'spring',
+    });
+    const broken = {
+      ...envelope,
+      users: { ...envelope.users, Zulu: { predictions: [{ symbol: 'MSFT' }] } },
+    };
+
+    const report = importLeagueData(existing, broken, { exclude: ['Ignored'], leagueId: 'spring' });
+
+    expect(report.errors).toEqual([]);
+    expect(report.updated).toEqual(['Alpha']);
+    expect(report.added).toEqual(['Bravo']);
+    expect(report.rejected.map(({ username, reason }) => [username, reason])).toEqual([
+      ['Ignored', 'excluded'],
+      ['Zulu', 'invalid'],
+    ]);
+    expect(report.rejected[1].errors.map((error) => error.path)).toEqual([
+      'users.Zulu.predictions[0].id',
+      'users.Zulu.predictions[0].prediction',
+      'users.Zulu.predictions[0].period',
+      'users.Zulu.predictions[0].madeAt',
+      'users.Zulu.predictions[0].targetDate',
+    ]);
+    expect(Object.keys(report.mergedUsers)).toEqual(['Alpha', 'Bravo']);
+
+    const stale = importLeagueData(report.mergedUsers, envelope, { exclude: ['Ignored'] });
+    expect(stale.unchanged).toEqual(['Alpha', 'Bravo']);
+  });
+
+  it('refuses unreadable documents and exports from other leagues', () => {
+    const envelope = createLeagueExport({
+      users: existing,
+      appVersion: '1.0.0',
+      leagueId: 'winter',
+    });
+
+    expect(importLeagueData(existing, '{not json').errors[0].message).toMatch(/^Invalid JSON/);
+    expect(importLeagueData(existing, envelope, { leagueId: 'spring' }).errors).toEqual([
+      { path: 'leagueId', message: 'Export belongs to league "winter", not "spring".' },
+    ]);
+    expect(importLeagueData({}, { format: 'other' }).mergedUsers).toEqual({});
+  });
+});
@@ -0,0 +1,576 @@
+import {
+  CHALLENGE_MODES,
+  CHALLENGE_SCORING,
+  CHALLENGE_STATUSES,
+  mergeChallenges,
+  settleChallenges,
+  type Challenge,
+} from './challenges.js';
+import {
+  isPredictionPeriod,
+  MAX_HORIZON_DAYS,
+  mergeLeagueUsers,
+  sanitizeUserEntry,
+  type LeagueEntry,
+  type LeagueUsers,
+  type MergeOptions,
+  type MergeSummary,
+} from './prediction.js';
+
+/**
+ * Export envelope, version 1:
+ *
+ * {
+ *   "format": "flengames-league-export",
+ *   "formatVersion": 1,
+ *   "appVersion": "1.0.0",
+ *   "leagueId": "spring" | null,
+ *   "exportedAt": "2024-03-06T12:00:00.000Z",
+ *   "users": { "<username>": { "predictions": [...], "pointsS1": 0, ..., "updatedAt": "..." } },
+ *   "signatures": { "<username>": { "algorithm": "ECDSA-P256-SHA256", "publicKey": "...", "signature": "..." } },
+ *   "challenges": [{ "id": "...", "challenger": "Alice", "opponent": "Bob", ... }]
+ * }
+ *
+ * Points inside `users` and challenge results are informational; importers recompute them from
+ * the predictions.
+ */
+export const EXPORT_FORMAT = 'flengames-league-export';
+export const EXPORT_FORMAT_VERSION = 1;
+export const LEGACY_APP_VERSION = 'legacy';
+
+export interface LeagueExportEnvelope {
+  format: typeof EXPORT_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  leagueId: string | null;
+  exportedAt: string;
+  users: LeagueUsers;
+  /** Optional per-user signatures; see `exportSigning`. */
+  signatures?: Record<string, EntrySignature>;
+  /** Optional head-to-head challenges between the exported users; see `challenges`. */
+  challenges?: Challenge[];
+}
+
+export const SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+export interface EntrySignature {
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  /** Base64 SPKI encoding of the signer's public key. */
+  publicKey: string;
+  /** Base64 signature over the user's canonicalized predictions. */
+  signature: string;
+}
+
+export interface ExportValidationError {
+  /** Location of the problem, e.g. `users.Alice.predictions[2].period`; `$` for the document. */
+  path: string;
+  message: string;
+}
+
+export interface LeagueExportValidation {
+  /** Envelope-level problems; any of these makes the whole document unusable. */
+  errors: ExportValidationError[];
+  /** Problems confined to a single user, keyed by username. */
+  userErrors: Record<string, ExportValidationError[]>;
+  /** Problems with individual challenges, present when the document has challenges. */
+  challengeErrors?: ExportValidationError[];
+}
+
+export interface CreateLeagueExportInput {
+  users: LeagueUsers;
+  appVersion: string;
+  leagueId?: string | null;
+  now?: Date;
+  challenges?: Challenge[];
+}
+
+export type ImportRejectionReason =
+  | 'invalid'
+  | 'excluded'
+  | 'unsigned'
+  | 'invalid-signature'
+  | 'key-mismatch';
+
+export interface RejectedImportUser {
+  username: string;
+  reason: ImportRejectionReason;
+  errors: ExportValidationError[];
+}
+
+export interface ImportReport extends MergeSummary {
+  rejected: RejectedImportUser[];
+  /** Valid users whose data added nothing to their existing entry. */
+  unchanged: string[];
+  /** True when the input was a pre-envelope export and was migrated before merging. */
+  migrated: boolean;
+  errors: ExportValidationError[];
+  /** Existing challenges merged with the valid imported ones, then re-settled. */
+  challenges: Challenge[];
+  /** Imported challenges that were skipped because they are malformed. */
+  challengeErrors: ExportValidationError[];
+}
+
+export interface ImportOptions extends MergeOptions {
+  /** When set, envelopes tagged with a different league are refused. */
+  leagueId?: string;
+  /** Users to refuse with the given reason, e.g. after a failed signature check. */
+  rejectUsers?: Record<string, ImportRejectionReason>;
+  /** Challenges already on this device, merged with any in the export. */
+  challenges?: Challenge[];
+  now?: Date;
+}
+
+export interface ParsedLeagueExport extends LeagueExportValidation {
+  /** The envelope, after legacy migration; null when the input is not readable JSON. */
+  document: Record<string, unknown> | null;
+  migrated: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isTimestamp = (value: unknown): boolean =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+export const createLeagueExport = (input: CreateLeagueExportInput): LeagueExportEnvelope => {
+  const users: LeagueUsers = {};
+
+  Object.entries(input.users).forEach(([username, entry]) => {
+    users[username] = sanitizeUserEntry(username, entry);
+  });
+
+  const envelope: LeagueExportEnvelope = {
+    format: EXPORT_FORMAT,
+    formatVersion: EXPORT_FORMAT_VERSION,
+    appVersion: input.appVersion,
+    leagueId: input.leagueId ?? null,
+    exportedAt: (input.now ?? new Date()).toISOString(),
+    users,
+  };
+
+  if (input.challenges) {
+    envelope.challenges = input.challenges;
+  }
+
+  return envelope;
+};
+
+/** Pre-envelope exports are a single `{user, predictions, pointsS1, pointsS2}` object. */
+export const isLegacyExport = (value: unknown): boolean =>
+  isRecord(value) &&
+  !('format' in value) &&
+  typeof value.user === 'string' &&
+  Array.isArray(value.predictions);
+
+/**
+ * Wraps a legacy export in a version 1 envelope. Legacy exports carry no timestamps, so the
+ * latest `madeAt` stands in for both the export time and the entry's `updatedAt`.
+ */
+export const migrateLegacyExport = (value: Record<string, unknown>): Record<string, unknown> => {
+  const predictions = value.predictions as unknown[];
+  const latestMadeAt = predictions
+    .map((prediction) => (isRecord(prediction) ? prediction.madeAt : undefined))
+    .filter((madeAt): madeAt is string => isTimestamp(madeAt))
+    .sort((a, b) => Date.parse(b) - Date.parse(a))[0];
+  const exportedAt = latestMadeAt ?? new Date(0).toISOString();
+
+  return {
+    format: EXPORT_FORMAT,
+    formatVersion: EXPORT_FORMAT_VERSION,
+    appVersion: LEGACY_APP_VERSION,
+    leagueId: null,
+    exportedAt,
+    users: {
+      [value.user as string]: {
+        predictions,
+        pointsS1: value.pointsS1,
+        pointsS2: value.pointsS2,
+        updatedAt: exportedAt,
+      },
+    },
+  };
+};
+
+const validatePrediction = (value: unknown, path: string): ExportValidationError[] => {
+  if (!isRecord(value)) {
+    return [{ path, message: `Expected an object, got ${describeType(value)}.` }];
+  }
+
+  const errors: ExportValidationError[] = [];
+  const expect = (field: string, valid: boolean, message: string) => {
+    if (!valid) {
+      errors.push({ path: `${path}.${field}`, message });
+    }
+  };
+
+  expect(
+    'id',
+    typeof value.id === 'number' && Number.isFinite(value.id),
+    'Expected a numeric prediction id.',
+  );
+  expect(
+    'symbol',
+    typeof value.symbol === 'string' && value.symbol.trim() !== '',
+    'Expected a ticker symbol.',
+  );
+  expect(
+    'prediction',
+    value.prediction === 'up' || value.prediction === 'down',
+    'Expected "up" or "down".',
+  );
+  expect(
+    'period',
+    isPredictionPeriod(value.period),
+    `Unknown prediction period ${JSON.stringify(value.period)}.`,
+  );
+  expect('madeAt', isTimestamp(value.madeAt), 'Expected an ISO timestamp.');
+  expect(
+    'targetDate',
+    typeof value.targetDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.targetDate),
+    'Expected a YYYY-MM-DD date.',
+  );
+  expect(
+    'status',
+    value.status === undefined || value.status === 'pending' || value.status === 'resolved',
+    'Expected "pending" or "resolved".',
+  );
+
+  if (value.period === 'custom') {
+    expect(
+      'horizonDays',
+      Number.isInteger(Number(value.horizonDays)) &&
+        Number(value.horizonDays) >= 1 &&
+        Number(value.horizonDays) <= MAX_HORIZON_DAYS,
+      `Custom predictions need a whole number of trading days from 1 to ${MAX_HORIZON_DAYS}.`,
+    );
+  }
+
+  return errors;
+};
+
+const validateUserEntry = (value: unknown, path: string): ExportValidationError[] => {
+  if (!isRecord(value)) {
+    return [{ path, message: `Expected an object, got ${describeType(value)}.` }];
+  }
+
+  if (!Array.isArray(value.predictions)) {
+    return [{ path: `${path}.predictions`, message: 'Expected an array of predictions.' }];
+  }
+
+  const errors = value.predictions.flatMap((prediction, index) =>
+    validatePrediction(prediction, `${path}.predictions[${index}]`),
+  );
+
+  if (value.updatedAt !== undefined && !isTimestamp(value.updatedAt)) {
+    errors.push({ path: `${path}.updatedAt`, message: 'Expected an ISO timestamp.' });
+  }
+
+  return errors;
+};
+
+const validateSignature = (value: unknown, path: string): ExportValidationError[] => {
+  if (!isRecord(value)) {
+    return [{ path, message: `Expected an object, got ${describeType(value)}.` }];
+  }
+
+  const errors: ExportValidationError[] = [];
+
+  if (value.algorithm !== SIGNATURE_ALGORITHM) {
+    errors.push({ path: `${path}.algorithm`, message: `Expected "${SIGNATURE_ALGORITHM}".` });
+  }
+
+  ['publicKey', 'signature'].forEach((field) => {
+    if (typeof value[field] !== 'string' || !value[field]) {
+      errors.push({ path: `${path}.${field}`, message: 'Expected a base64 string.' });
+    }
+  });
+
+  return errors;
+};
+
+const validateChallenge = (value: unknown, path: string): ExportValidationError[] => {
+  if (!isRecord(value)) {
+    return [{ path, message: `Expected an object, got ${describeType(value)}.` }];
+  }
+
+  const errors: ExportValidationError[] = [];
+  const expect = (field: string, valid: boolean, message: string) => {
+    if (!valid) {
+      errors.push({ path: `${path}.${field}`, message });
+    }
+  };
+  const isName = (field: unknown) => typeof field === 'string' && field.trim() !== '';
+
+  expect('id', isName(value.id), 'Expected a challenge id.');
+  expect('challenger', isName(value.challenger), 'Expected a username.');
+  expect(
+    'opponent',
+    isName(value.opponent) && value.opponent !== value.challenger,
+    'Expected a username other than the challenger.',
+  );
+  expect('symbol', isName(value.symbol), 'Expected a ticker symbol.');
+  expect(
+    'period',
+    isPredictionPeriod(value.period),
+    `Unknown prediction period ${JSON.stringify(value.period)}.`,
+  );
+  expect(
+    'targetDate',
+    typeof value.targetDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.targetDate),
+    'Expected a YYYY-MM-DD date.',
+  );
+  expect(
+    'mode',
+    CHALLENGE_MODES.includes(value.mode as Challenge['mode']),
+    `Expected one of ${CHALLENGE_MODES.join(', ')}.`,
+  );
+  expect(
+    'challengerCall',
+    value.mode === 'opposite'
+      ? value.challengerCall === 'up' || value.challengerCall === 'down'
+      : value.challengerCall === null,
+    'Expected "up" or "down" for opposite challenges, otherwise null.',
+  );
+  expect(
+    'scoring',
+    CHALLENGE_SCORING.includes(value.scoring as Challenge['scoring']),
+    `Expected one of ${CHALLENGE_SCORING.join(', ')}.`,
+  );
+  expect(
+    'stake',
+    Number.isInteger(value.stake) && (value.stake as number) >= 1,
+    'Expected a whole number of points of at least 1.',
+  );
+  expect(
+    'status',
+    CHALLENGE_STATUSES.includes(value.status as Challenge['status']),
+    `Expected one of ${CHALLENGE_STATUSES.join(', ')}.`,
+  );
+  expect(
+    'challengerPredictionId',
+    typeof value.challengerPredictionId === 'number',
+    'Expected a prediction id.',
+  );
+  expect(
+    'opponentPredictionId',
+    typeof value.opponentPredictionId === 'number' ||
+      (value.opponentPredictionId === null &&
+        (value.status === 'open' || value.status === 'declined')),
+    'Expected a prediction id once the challenge is accepted.',
+  );
+  expect('createdAt', isTimestamp(value.createdAt), 'Expected an ISO timestamp.');
+
+  return errors;
+};
+
+/**
+ * Checks a parsed document against the version 1 envelope. Envelope problems and per-user
+ * problems are reported separately so a single bad user does not block the rest.
+ */
+export const validateLeagueExport = (value: unknown): LeagueExportValidation => {
+  const result: LeagueExportValidation = { errors: [], userErrors: {} };
+
+  if (!isRecord(value)) {
+    result.errors.push({ path: '$', message: `Expected an object, got ${describeType(value)}.` });
+    return result;
+  }
+
+  if (value.format !== EXPORT_FORMAT) {
+    result.errors.push({ path: 'format', message: `Expected "${EXPORT_FORMAT}".` });
+  }
+
+  if (value.formatVersion !== EXPORT_FORMAT_VERSION) {
+    result.errors.push({
+      path: 'formatVersion',
+      message: `Unsupported format version ${JSON.stringify(value.formatVersion)}; expected ${EXPORT_FORMAT_VERSION}.`,
+    });
+  }
+
+  if (typeof value.appVersion !== 'string' || !value.appVersion) {
+    result.errors.push({ path: 'appVersion', message: 'Expected a version string.' });
+  }
+
+  if (value.leagueId !== null && (typeof value.leagueId !== 'string' || !value.leagueId)) {
+    result.errors.push({ path: 'leagueId', message: 'Expected a league id or null.' });
+  }
+
+  if (!isTimestamp(value.exportedAt)) {
+    result.errors.push({ path: 'exportedAt', message: 'Expected an ISO timestamp.' });
+  }
+
+  if (!isRecord(value.users)) {
+    result.errors.push({ path: 'users', message: 'Expected an object keyed by username.' });
+    return result;
+  }
+
+  if (Object.keys(value.users).length === 0) {
+    result.errors.push({ path: 'users', message: 'Expected at least one user.' });
+  }
+
+  Object.entries(value.users).forEach(([username, entry]) => {
+    const path = `users.${username}`;
+    const errors = username.trim()
+      ? validateUserEntry(entry, path)
+      : [{ path, message: 'Usernames cannot be empty.' }];
+
+    if (errors.length > 0) {
+      result.userErrors[username] = errors;
+    }
+  });
+
+  if (Array.isArray(value.challenges)) {
+    result.challengeErrors = value.challenges.flatMap((challenge, index) =>
+      validateChallenge(challenge, `challenges[${index}]`),
+    );
+  } else if (value.challenges !== undefined) {
+    result.errors.push({ path: 'challenges', message: 'Expected an array of challenges.' });
+  }
+
+  if (value.signatures === undefined) {
+    return result;
+  }
+
+  if (!isRecord(value.signatures)) {
+    result.errors.push({ path: 'signatures', message: 'Expected an object keyed by username.' });
+    return result;
+  }
+
+  Object.entries(value.signatures).forEach(([username, signature]) => {
+    const errors = validateSignature(signature, `signatures.${username}`);
+
+    if (errors.length > 0) {
+      result.userErrors[username] = [...(result.userErrors[username] ?? []), ...errors];
+    }
+  });
+
+  return result;
+};
+
+const parseDocument = (input: unknown): { value: unknown; error?: ExportValidationError } => {
+  if (typeof input !== 'string') {
+    return { value: input };
+  }
+
+  try {
+    return { value: JSON.parse(input) };
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { value: null, error: { path: '$', message: `Invalid JSON: ${detail}` } };
+  }
+};
+
+/** Parses export text or a parsed value, migrating legacy exports, and validates the result. */
+export const parseLeagueExport = (input: unknown): ParsedLeagueExport => {
+  const parsed = parseDocument(input);
+
+  if (parsed.error) {
+    return { document: null, migrated: false, errors: [parsed.error], userErrors: {} };
+  }
+
+  const migrated = isLegacyExport(parsed.value);
+  const document = migrated
+    ? migrateLegacyExport(parsed.value as Record<string, unknown>)
+    : parsed.value;
+
+  return {
+    ...validateLeagueExport(document),
+    document: isRecord(document) ? document : null,
+    migrated,
+  };
+};
+
+/**
+ * Imports exported league data, as text or an already parsed value, into `existingUsers`.
+ * Legacy exports are migrated first; every accepted user then goes through
+ * `mergeLeagueUsers`, so entries are sanitized and points recomputed exactly as for any merge.
+ */
+export const importLeagueData = (
+  existingUsers: LeagueUsers,
+  input: unknown,
+  options: ImportOptions = {},
+): ImportReport => {
+  const parsed = parseLeagueExport(input);
+  const report: ImportReport = {
+    added: [],
+    updated: [],
+    mergedUsers: { ...existingUsers },
+    flagged: [],
+    conflicts: [],
+    rejected: [],
+    unchanged: [],
+    migrated: parsed.migrated,
+    errors: [...parsed.errors],
+    challenges: options.challenges ?? [],
+    challengeErrors: parsed.challengeErrors ?? [],
+  };
+
+  if (report.errors.length > 0 || !parsed.document) {
+    return report;
+  }
+
+  const envelope = parsed.document;
+
+  if (options.leagueId && envelope.leagueId && envelope.leagueId !== options.leagueId) {
+    report.errors.push({
+      path: 'leagueId',
+      message: `Export belongs to league "${String(envelope.leagueId)}", not "${options.leagueId}".`,
+    });
+    return report;
+  }
+
+  const excluded = new Set(options.exclude ?? []);
+  const accepted: Record<string, LeagueEntry> = {};
+
+  Object.entries(envelope.users as Record<string, LeagueEntry>).forEach(([username, entry]) => {
+    if (parsed.userErrors[username]) {
+      report.rejected.push({
+        username,
+        reason: 'invalid',
+        errors: parsed.userErrors[username],
+      });
+    } else if (options.rejectUsers?.[username]) {
+      report.rejected.push({ username, reason: options.rejectUsers[username], errors: [] });
+    } else if (excluded.has(username)) {
+      report.rejected.push({ username, reason: 'excluded', errors: [] });
+    } else {
+      accepted[username] = entry;
+    }
+  });
+
+  const summary = mergeLeagueUsers(existingUsers, accepted, options);
+  const changed = new Set([...summary.added, ...summary.updated]);
+  const refused = new Set(report.rejected.map(({ username }) => username));
+  const invalidChallenges = new Set(
+    report.challengeErrors.map(({ path }) => Number(/^challenges\[(\d+)\]/.exec(path)?.[1])),
+  );
+  // Challenges involving a refused user are dropped along with that user's data.
+  const incomingChallenges = ((envelope.challenges ?? []) as Challenge[]).filter(
+    (challenge, index) =>
+      !invalidChallenges.has(index) &&
+      !refused.has(challenge.challenger) &&
+      !refused.has(challenge.opponent),
+  );
+
+  return {
+    ...report,
+    added: summary.added,
+    updated: summary.updated,
+    mergedUsers: summary.mergedUsers,
+    flagged: summary.flagged,
+    conflicts: summary.conflicts,
+    unchanged: Object.keys(accepted).filter((username) => !changed.has(username)),
+    challenges: settleChallenges(
+      mergeChallenges(report.challenges, incomingChallenges),
+      summary.mergedUsers,
+      options.now,
+    ),
+  };
+};
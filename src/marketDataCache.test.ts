@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  buildCacheKey,
+  createCachedMarketDataProvider,
+  createMarketDataCache,
+  createMemoryStorageBackend,
+  createWebStorageBackend,
+} from './marketDataCache.js';
+import { type MarketDataProvider } from './marketDataProvider.js';
+
+const createClock = (start = 0) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+};
+
+describe('buildCacheKey', () => {
+  it('normalizes parameter order and casing', () => {
+    expect(buildCacheKey('quote', { symbol: ' AAPL ', provider: 'x' })).toBe(
+      buildCacheKey('quote', { provider: 'x', symbol: 'aapl' }),
+    );
+  });
+});
+
+describe('createMarketDataCache', () => {
+  it('applies per-endpoint ttls and counts hits, misses and expirations', () => {
+    const clock = createClock();
+    const cache = createMarketDataCache({ now: clock.now });
+
+    cache.set('quote', { symbol: 'AAPL' }, { price: 1 });
+    cache.set('overview', { symbol: 'AAPL' }, { name: 'Apple' });
+
+    expect(cache.get('quote', { symbol: 'aapl' })).toEqual({ price: 1 });
+
+    clock.advance(5 * 60 * 1000);
+
+    expect(cache.get('quote', { symbol: 'AAPL' })).toBeNull();
+    expect(cache.get('overview', { symbol: 'AAPL' })).toEqual({ name: 'Apple' });
+    expect(cache.getStats()).toEqual({
+      hits: 2,
+      misses: 1,
+      evictions: 0,
+      expirations: 1,
+      size: 1,
+    });
+  });
+
+  it('evicts the least recently used entry and returns copies', () => {
+    const cache = createMarketDataCache({ maxEntries: 2 });
+    const apple = { price: 1 };
+
+    cache.set('quote', { symbol: 'AAPL' }, apple);
+    cache.set('quote', { symbol: 'MSFT' }, { price: 2 });
+    apple.price = 99;
+    expect(cache.get('quote', { symbol: 'AAPL' })).toEqual({ price: 1 });
+
+    cache.set('quote', { symbol: 'GOOG' }, { price: 3 });
+
+    expect(cache.get('quote', { symbol: 'MSFT' })).toBeNull();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('invalidates a single endpoint', () => {
+    const cache = createMarketDataCache();
+
+    cache.set('quote', { symbol: 'AAPL' }, 1);
+    cache.set('daily', { symbol: 'AAPL' }, 2);
+    cache.invalidateEndpoint('quote');
+
+    expect(cache.get('quote', { symbol: 'AAPL' })).toBeNull();
+    expect(cache.get('daily', { symbol: 'AAPL' })).toBe(2);
+  });
+
+  it('persists entries and restores unexpired ones on load', async () => {
+    const clock = createClock();
+    const storage = createMemoryStorageBackend();
+    const first = createMarketDataCache({ storage, now: clock.now });
+
+    first.set('quote', { symbol: 'AAPL' }, { price: 1 });
+    first.set('overview', { symbol: 'AAPL' }, { name: 'Apple' });
+    await first.flush();
+
+    clock.advance(10 * 60 * 1000);
+    const second = createMarketDataCache({ storage, now: clock.now });
+    await second.load();
+
+    expect(second.get('overview', { symbol: 'AAPL' })).toEqual({ name: 'Apple' });
+    expect(second.get('quote', { symbol: 'AAPL' })).toBeNull();
+    expect(second.getStats().size).toBe(1);
+  });
+
+  it('discards snapshots written by another cache version', async () => {
+    const values = new Map<string, string>();
+    const storage = createWebStorageBackend({
+      getItem: (key) => values.get(key) ?? null,
+      setItem: (key, value) => {
+        values.set(key, value);
+      },
+      removeItem: (key) => {
+        values.delete(key);
+      },
+    });
+
+    const legacy = createMarketDataCache({ storage, version: 1 });
+    legacy.set('overview', { symbol: 'AAPL' }, { name: 'Apple' });
+    await legacy.flush();
+
+    const current = createMarketDataCache({ storage, version: 2 });
+    await current.load();
+
+    expect(current.get('overview', { symbol: 'AAPL' })).toBeNull();
+    expect(values.has('marketDataCache')).toBe(false);
+  });
+
+  it('ignores corrupt snapshots', async () => {
+    const storage = createMemoryStorageBackend();
+    await storage.setItem('marketDataCache', '{not json');
+
+    const cache = createMarketDataCache({ storage });
+    await cache.load();
+
+    expect(cache.getStats().size).toBe(0);
+  });
+});
+
+describe('daily series ttl', () => {
+  const MINUTE_MS = 60 * 1000;
+  const series = (date: string) => ({
+    bars: [{ date, open: 1, high: 1, low: 1, close: 1, volume: 1 }],
+  });
+
+  it('keeps closed bars until the next session opens', () => {
+    // Tuesday 2024-03-05, 17:00 in New York.
+    const clock = createClock(Date.parse('2024-03-05T22:00:00Z'));
+    const cache = createMarketDataCache({ now: clock.now });
+
+    cache.set('daily', { symbol: 'AAPL' }, series('2024-03-05'));
+    clock.advance(16 * 60 * MINUTE_MS);
+    expect(cache.get('daily', { symbol: 'AAPL' })).not.toBeNull();
+
+    clock.advance(30 * MINUTE_MS);
+    expect(cache.get('daily', { symbol: 'AAPL' })).toBeNull();
+  });
+
+  it('expires a live or lagging tail after the quote ttl', () => {
+    // Tuesday 2024-03-05, 10:00 in New York, while the session is open.
+    const clock = createClock(Date.parse('2024-03-05T15:00:00Z'));
+    const cache = createMarketDataCache({ now: clock.now });
+
+    cache.set('daily', { symbol: 'AAPL' }, series('2024-03-05'));
+    clock.advance(7 * 60 * MINUTE_MS);
+    cache.set('daily', { symbol: 'MSFT' }, series('2024-03-04'));
+    clock.advance(5 * MINUTE_MS);
+
+    expect(cache.get('daily', { symbol: 'MSFT' })).toBeNull();
+    expect(cache.get('daily', { symbol: 'AAPL' })).toBeNull();
+  });
+});
+
+describe('createCachedMarketDataProvider', () => {
+  it('serves cacheable results from the cache and skips failures', async () => {
+    const getQuote = vi
+      .fn<Parameters<MarketDataProvider['getQuote']>, ReturnType<MarketDataProvider['getQuote']>>()
+      .mockResolvedValueOnce({
+        quote: null,
+        message: 'Please try again later.',
+        isRateLimited: true,
+        isCacheable: false,
+      })
+      .mockResolvedValue({
+        quote: { symbol: 'AAPL', price: 170 },
+        isRateLimited: false,
+        isCacheable: true,
+      });
+    const provider = { id: 'test', getQuote } as unknown as MarketDataProvider;
+    const cached = createCachedMarketDataProvider(provider, createMarketDataCache());
+
+    expect((await cached.getQuote('AAPL')).isRateLimited).toBe(true);
+    expect((await cached.getQuote('AAPL')).quote?.price).toBe(170);
+    expect((await cached.getQuote('aapl')).quote?.price).toBe(170);
+    expect(getQuote).toHaveBeenCalledTimes(2);
+  });
+});
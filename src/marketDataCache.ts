@@ -0,0 +1,428 @@
+import { type DailyBar } from './alphaVantage.js';
+import { type MarketDataProvider } from './marketDataProvider.js';
+import {
+  DEFAULT_EXCHANGE,
+  getMarketStatus,
+  getPreviousTradingDay,
+  getSessionOpening,
+} from './tradingCalendar.js';
+
+export type MarketDataEndpoint = 'search' | 'quote' | 'overview' | 'daily';
+
+export type CacheParams = Record<string, string>;
+
+/**
+ * Minimal async key/value store the cache persists into. `localStorage`, IndexedDB and plain
+ * memory can all be adapted to it.
+ */
+export interface CacheStorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/** The subset of the Web Storage API used by `createWebStorageBackend`. */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface MarketDataCacheOptions {
+  storage?: CacheStorageBackend;
+  storageKey?: string;
+  version?: number;
+  ttlMs?: Partial<Record<MarketDataEndpoint, number>>;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface MarketDataCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  size: number;
+}
+
+export interface MarketDataCache {
+  get<T>(endpoint: MarketDataEndpoint, params: CacheParams): T | null;
+  set<T>(endpoint: MarketDataEndpoint, params: CacheParams, value: T, ttlMs?: number): void;
+  delete(endpoint: MarketDataEndpoint, params: CacheParams): void;
+  invalidateEndpoint(endpoint: MarketDataEndpoint): void;
+  clear(): void;
+  pruneExpired(now?: number): void;
+  getStats(): MarketDataCacheStats;
+  load(): Promise<void>;
+  flush(): Promise<void>;
+}
+
+interface CacheEntry {
+  endpoint: MarketDataEndpoint;
+  value: unknown;
+  expiresAt: number;
+  lastAccessed: number;
+}
+
+interface PersistedCacheSnapshot {
+  version: number;
+  entries: Array<[string, CacheEntry]>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const DEFAULT_MARKET_DATA_TTL_MS: Record<MarketDataEndpoint, number> = {
+  search: DAY_MS,
+  quote: 5 * MINUTE_MS,
+  overview: 7 * DAY_MS,
+  daily: DAY_MS,
+};
+
+const isDailySeries = (value: unknown): value is { bars: DailyBar[] } =>
+  typeof value === 'object' && value !== null && Array.isArray((value as { bars?: unknown }).bars);
+
+/**
+ * TTL for a daily series. Closed bars keep `ttlMs.daily`, but never past the next session's
+ * opening; a series that is missing the last closed session or is fetched while the market is
+ * open has a live tail and only keeps `ttlMs.quote`.
+ */
+const getDailySeriesTtlMs = (
+  bars: DailyBar[],
+  ttlMs: Record<MarketDataEndpoint, number>,
+  instant: number,
+): number => {
+  const status = getMarketStatus(DEFAULT_EXCHANGE, new Date(instant));
+  const lastClosedSession =
+    status.state === 'closed'
+      ? status.exchangeDate
+      : getPreviousTradingDay(DEFAULT_EXCHANGE, status.exchangeDate);
+  const latestBar = bars[bars.length - 1];
+
+  if (status.state === 'open' || latestBar?.date !== lastClosedSession) {
+    return Math.min(ttlMs.quote, ttlMs.daily);
+  }
+
+  const untilOpening =
+    Date.parse(`${getSessionOpening(DEFAULT_EXCHANGE, status.nextSessionDate)}Z`) -
+    Date.parse(`${status.exchangeDate}T${status.exchangeTime}Z`);
+  return Math.min(ttlMs.daily, untilOpening);
+};
+
+const DEFAULT_STORAGE_KEY = 'marketDataCache';
+const DEFAULT_CACHE_VERSION = 1;
+const DEFAULT_MAX_ENTRIES = 200;
+
+export const buildCacheKey = (endpoint: MarketDataEndpoint, params: CacheParams): string => {
+  const normalizedParams = Object.keys(params)
+    .sort()
+    .map((name) => `${name}=${params[name].trim().toLowerCase()}`)
+    .join('&');
+  return `${endpoint}:${normalizedParams}`;
+};
+
+export const createMemoryStorageBackend = (): CacheStorageBackend => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+export const createWebStorageBackend = (storage: WebStorageLike): CacheStorageBackend => ({
+  getItem: async (key) => storage.getItem(key),
+  setItem: async (key, value) => {
+    storage.setItem(key, value);
+  },
+  removeItem: async (key) => {
+    storage.removeItem(key);
+  },
+});
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Stores cache snapshots in a single IndexedDB object store, for quotas beyond localStorage.
+ */
+export const createIndexedDbStorageBackend = (
+  databaseName = 'flengames-stockgame',
+  storeName = 'keyval',
+  factory: IDBFactory = globalThis.indexedDB,
+): CacheStorageBackend => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      const request = factory.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      databasePromise = promisifyRequest(request);
+    }
+
+    return databasePromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const database = await openDatabase();
+    return promisifyRequest(action(database.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await withStore<unknown>('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+  };
+};
+
+const isPersistedSnapshot = (value: unknown): value is PersistedCacheSnapshot =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as PersistedCacheSnapshot).version === 'number' &&
+  Array.isArray((value as PersistedCacheSnapshot).entries);
+
+/**
+ * Creates an LRU + TTL cache for market data keyed by endpoint and request parameters.
+ * Reads and writes are synchronous; `load` hydrates from the storage backend and every
+ * mutation is written back in order (await `flush` to wait for it). Snapshots written with a
+ * different `version` are discarded on load, which is how cached data is invalidated after
+ * parser or schema changes.
+ */
+export const createMarketDataCache = (options: MarketDataCacheOptions = {}): MarketDataCache => {
+  const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+  const version = options.version ?? DEFAULT_CACHE_VERSION;
+  const ttlMs = { ...DEFAULT_MARKET_DATA_TTL_MS, ...options.ttlMs };
+  const maxEntries =
+    typeof options.maxEntries === 'number' && options.maxEntries > 0
+      ? Math.floor(options.maxEntries)
+      : DEFAULT_MAX_ENTRIES;
+  const now = options.now ?? Date.now;
+
+  const cache = new Map<string, CacheEntry>();
+  const stats = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  let accessSequence = 0;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const persist = (): void => {
+    const { storage } = options;
+
+    if (!storage) {
+      return;
+    }
+
+    const snapshot: PersistedCacheSnapshot = { version, entries: Array.from(cache.entries()) };
+    const serialized = JSON.stringify(snapshot);
+    writeChain = writeChain
+      .then(() => storage.setItem(storageKey, serialized))
+      .catch(() => undefined);
+  };
+
+  const evictLeastRecentlyUsed = (): void => {
+    while (cache.size > maxEntries) {
+      let oldestKey: string | null = null;
+      let oldestAccess = Number.POSITIVE_INFINITY;
+
+      cache.forEach((entry, entryKey) => {
+        if (entry.lastAccessed < oldestAccess) {
+          oldestAccess = entry.lastAccessed;
+          oldestKey = entryKey;
+        }
+      });
+
+      if (!oldestKey) {
+        return;
+      }
+
+      cache.delete(oldestKey);
+      stats.evictions += 1;
+    }
+  };
+
+  const get = <T>(endpoint: MarketDataEndpoint, params: CacheParams): T | null => {
+    const key = buildCacheKey(endpoint, params);
+    const entry = cache.get(key);
+
+    if (!entry) {
+      stats.misses += 1;
+      return null;
+    }
+
+    if (entry.expiresAt <= now()) {
+      cache.delete(key);
+      stats.expirations += 1;
+      stats.misses += 1;
+      persist();
+      return null;
+    }
+
+    accessSequence += 1;
+    entry.lastAccessed = accessSequence;
+    stats.hits += 1;
+
+    return structuredClone(entry.value) as T;
+  };
+
+  const set = <T>(
+    endpoint: MarketDataEndpoint,
+    params: CacheParams,
+    value: T,
+    entryTtlMs: number = endpoint === 'daily' && isDailySeries(value)
+      ? getDailySeriesTtlMs(value.bars, ttlMs, now())
+      : ttlMs[endpoint],
+  ): void => {
+    if (!(entryTtlMs > 0)) {
+      return;
+    }
+
+    accessSequence += 1;
+    cache.set(buildCacheKey(endpoint, params), {
+      endpoint,
+      value: structuredClone(value),
+      expiresAt: now() + entryTtlMs,
+      lastAccessed: accessSequence,
+    });
+    evictLeastRecentlyUsed();
+    persist();
+  };
+
+  const remove = (endpoint: MarketDataEndpoint, params: CacheParams): void => {
+    if (cache.delete(buildCacheKey(endpoint, params))) {
+      persist();
+    }
+  };
+
+  const invalidateEndpoint = (endpoint: MarketDataEndpoint): void => {
+    cache.forEach((entry, entryKey) => {
+      if (entry.endpoint === endpoint) {
+        cache.delete(entryKey);
+      }
+    });
+    persist();
+  };
+
+  const clear = (): void => {
+    cache.clear();
+    persist();
+  };
+
+  const pruneExpired = (currentTime: number = now()): void => {
+    let removed = 0;
+
+    cache.forEach((entry, entryKey) => {
+      if (entry.expiresAt <= currentTime) {
+        cache.delete(entryKey);
+        removed += 1;
+      }
+    });
+
+    if (removed > 0) {
+      stats.expirations += removed;
+      persist();
+    }
+  };
+
+  const load = async (): Promise<void> => {
+    const { storage } = options;
+
+    if (!storage) {
+      return;
+    }
+
+    let snapshot: unknown = null;
+
+    try {
+      const stored = await storage.getItem(storageKey);
+      snapshot = stored ? JSON.parse(stored) : null;
+    } catch {
+      snapshot = null;
+    }
+
+    if (!isPersistedSnapshot(snapshot) || snapshot.version !== version) {
+      if (snapshot !== null) {
+        await storage.removeItem(storageKey).catch(() => undefined);
+      }
+      return;
+    }
+
+    const currentTime = now();
+    snapshot.entries.forEach(([key, entry]) => {
+      if (entry && typeof entry.expiresAt === 'number' && entry.expiresAt > currentTime) {
+        accessSequence = Math.max(accessSequence, entry.lastAccessed);
+        cache.set(key, entry);
+      }
+    });
+    evictLeastRecentlyUsed();
+  };
+
+  return {
+    get,
+    set,
+    delete: remove,
+    invalidateEndpoint,
+    clear,
+    pruneExpired,
+    getStats: () => ({ ...stats, size: cache.size }),
+    load,
+    flush: () => writeChain,
+  };
+};
+
+/**
+ * Wraps a provider so cacheable answers are served from `cache` until their TTL expires.
+ * Rate-limited and error responses are never cached.
+ */
+export const createCachedMarketDataProvider = (
+  provider: MarketDataProvider,
+  cache: MarketDataCache,
+): MarketDataProvider => {
+  const cached =
+    <T extends { isCacheable: boolean }>(
+      endpoint: MarketDataEndpoint,
+      paramName: string,
+      fetcher: (value: string) => Promise<T>,
+    ) =>
+    async (value: string): Promise<T> => {
+      const params = { provider: provider.id, [paramName]: value };
+      const hit = cache.get<T>(endpoint, params);
+
+      if (hit) {
+        return hit;
+      }
+
+      const result = await fetcher(value);
+
+      if (result.isCacheable) {
+        cache.set(endpoint, params, result);
+      }
+
+      return result;
+    };
+
+  return {
+    id: provider.id,
+    searchSymbols: cached('search', 'keywords', (keyword) => provider.searchSymbols(keyword)),
+    getQuote: cached('quote', 'symbol', (symbol) => provider.getQuote(symbol)),
+    getOverview: cached('overview', 'symbol', (symbol) => provider.getOverview(symbol)),
+    getDailySeries: cached('daily', 'symbol', (symbol) => provider.getDailySeries(symbol)),
+  };
+};
@@ -0,0 +1,93 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseGlobalQuoteResponse } from './alphaVantage.js';
+import { type AlphaVantageClient } from './alphaVantageClient.js';
+import {
+  createAlphaVantageProvider,
+  createFixtureMarketDataProvider,
+  type FixtureFileReader,
+} from './marketDataProvider.js';
+
+const fixturesDirectory = fileURLToPath(new URL('./fixtures/', import.meta.url));
+
+const readFixture: FixtureFileReader = async (fileName) => {
+  try {
+    return await readFile(`${fixturesDirectory}${fileName}`, 'utf8');
+  } catch {
+    return null;
+  }
+};
+
+describe('createFixtureMarketDataProvider', () => {
+  const provider = createFixtureMarketDataProvider({ readFile: readFixture });
+
+  it('filters recorded symbol search results by symbol prefix or name', async () => {
+    const bySymbol = await provider.searchSymbols('ms');
+    const byName = await provider.searchSymbols('business');
+
+    expect(bySymbol.matches.map((match) => match.symbol)).toEqual(['MSFT']);
+    expect(byName.matches.map((match) => match.symbol)).toEqual(['IBM']);
+    expect(byName.isCacheable).toBe(true);
+  });
+
+  it('serves quotes and overviews from recorded payloads', async () => {
+    const quote = await provider.getQuote('ibm');
+    const overview = await provider.getOverview('IBM');
+
+    expect(quote.quote?.price).toBe(195.95);
+    expect(overview.overview?.sector).toBe('TECHNOLOGY');
+  });
+
+  it('reads daily series from JSON or CSV files', async () => {
+    const json = await provider.getDailySeries('AAPL');
+    const csv = await provider.getDailySeries('msft');
+
+    expect(json.bars[0]).toMatchObject({ date: '2024-03-01', close: 179.66 });
+    expect(csv.symbol).toBe('MSFT');
+    expect(csv.bars.map((bar) => bar.date)).toEqual([
+      '2024-03-04',
+      '2024-03-05',
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+    ]);
+    expect(csv.bars[0]).toEqual({
+      date: '2024-03-04',
+      open: 413.44,
+      high: 417.35,
+      low: 412.32,
+      close: 414.92,
+      volume: 17596047,
+    });
+  });
+
+  it('reports missing fixtures without throwing', async () => {
+    const quote = await provider.getQuote('NOPE');
+    const series = await provider.getDailySeries('NOPE');
+
+    expect(quote).toEqual({
+      quote: null,
+      message: 'No fixture data for NOPE.',
+      isRateLimited: false,
+      isCacheable: false,
+    });
+    expect(series.bars).toEqual([]);
+    expect(series.message).toBe('No fixture data for NOPE.');
+  });
+});
+
+describe('createAlphaVantageProvider', () => {
+  it('delegates to the rate-limited client with normalized symbols', async () => {
+    const quote = parseGlobalQuoteResponse({ 'Global Quote': {} });
+    const client = {
+      getGlobalQuote: vi.fn(async () => quote),
+    } as unknown as AlphaVantageClient;
+    const provider = createAlphaVantageProvider(client);
+
+    await expect(provider.getQuote(' aapl ')).resolves.toBe(quote);
+    expect(client.getGlobalQuote).toHaveBeenCalledWith('AAPL');
+    expect(provider.id).toBe('alpha-vantage');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  normalizeSymbolSearchKeyword,
+  parseCompanyOverviewResponse,
+  parseDailySeriesCsv,
+  parseDailySeriesResponse,
+  parseGlobalQuoteResponse,
+  parseSymbolSearchResponse,
+  type ParsedCompanyOverviewResponse,
+  type ParsedDailySeriesResponse,
+  type ParsedGlobalQuoteResponse,
+  type ParsedSymbolSearchResponse,
+} from './alphaVantage.js';
+import { type AlphaVantageClient } from './alphaVantageClient.js';
+
+/**
+ * Vendor-neutral access to market data. Every method resolves with the same
+ * `message`/`isRateLimited`/`isCacheable` contract as the Alpha Vantage parsers, so callers
+ * never need to know which source answered.
+ */
+export interface MarketDataProvider {
+  readonly id: string;
+  searchSymbols(keyword: string): Promise<ParsedSymbolSearchResponse>;
+  getQuote(symbol: string): Promise<ParsedGlobalQuoteResponse>;
+  getOverview(symbol: string): Promise<ParsedCompanyOverviewResponse>;
+  getDailySeries(symbol: string): Promise<ParsedDailySeriesResponse>;
+}
+
+/** Reads a fixture file by name, resolving `null` when the file does not exist. */
+export type FixtureFileReader = (fileName: string) => Promise<string | null>;
+
+export interface FixtureProviderOptions {
+  readFile: FixtureFileReader;
+}
+
+const FIXTURE_SEARCH_FILE = 'symbolSearch.json';
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+export const createAlphaVantageProvider = (client: AlphaVantageClient): MarketDataProvider => ({
+  id: 'alpha-vantage',
+  searchSymbols: (keyword) => client.searchSymbols(keyword),
+  getQuote: (symbol) => client.getGlobalQuote(normalizeSymbol(symbol)),
+  getOverview: (symbol) => client.getCompanyOverview(normalizeSymbol(symbol)),
+  getDailySeries: (symbol) => client.getDailySeries(normalizeSymbol(symbol)),
+});
+
+/**
+ * Serves recorded Alpha Vantage payloads from local files so the game can run without a key.
+ * Files follow the naming used in `src/fixtures`: `symbolSearch.json`,
+ * `globalQuote.<SYMBOL>.json`, `companyOverview.<SYMBOL>.json` and
+ * `timeSeriesDaily.<SYMBOL>.json` or `.csv`. Answers depend only on the file contents.
+ */
+export const createFixtureMarketDataProvider = (
+  options: FixtureProviderOptions,
+): MarketDataProvider => {
+  const missingFixture = (symbol: string) => ({
+    message: `No fixture data for ${symbol}.`,
+    isRateLimited: false,
+    isCacheable: false,
+  });
+
+  const searchSymbols = async (keyword: string): Promise<ParsedSymbolSearchResponse> => {
+    const normalizedKeyword = normalizeSymbolSearchKeyword(keyword);
+    const text = await options.readFile(FIXTURE_SEARCH_FILE);
+
+    if (text === null) {
+      return { matches: [], message: undefined, isRateLimited: false, isCacheable: true };
+    }
+
+    const parsed = parseSymbolSearchResponse(parseJson(text));
+
+    if (!normalizedKeyword) {
+      return parsed;
+    }
+
+    return {
+      ...parsed,
+      matches: parsed.matches.filter(
+        (match) =>
+          match.symbol.toLowerCase().startsWith(normalizedKeyword) ||
+          match.name.toLowerCase().includes(normalizedKeyword),
+      ),
+    };
+  };
+
+  const getQuote = async (symbol: string): Promise<ParsedGlobalQuoteResponse> => {
+    const normalized = normalizeSymbol(symbol);
+    const text = await options.readFile(`globalQuote.${normalized}.json`);
+
+    return text === null
+      ? { quote: null, ...missingFixture(normalized) }
+      : parseGlobalQuoteResponse(parseJson(text));
+  };
+
+  const getOverview = async (symbol: string): Promise<ParsedCompanyOverviewResponse> => {
+    const normalized = normalizeSymbol(symbol);
+    const text = await options.readFile(`companyOverview.${normalized}.json`);
+
+    return text === null
+      ? { overview: null, ...missingFixture(normalized) }
+      : parseCompanyOverviewResponse(parseJson(text));
+  };
+
+  const getDailySeries = async (symbol: string): Promise<ParsedDailySeriesResponse> => {
+    const normalized = normalizeSymbol(symbol);
+    const jsonText = await options.readFile(`timeSeriesDaily.${normalized}.json`);
+
+    if (jsonText !== null) {
+      return parseDailySeriesResponse(parseJson(jsonText));
+    }
+
+    const csvText = await options.readFile(`timeSeriesDaily.${normalized}.csv`);
+
+    return csvText === null
+      ? { bars: [], ...missingFixture(normalized) }
+      : { symbol: normalized, ...parseDailySeriesCsv(csvText) };
+  };
+
+  return {
+    id: 'fixtures',
+    searchSymbols,
+    getQuote,
+    getOverview,
+    getDailySeries,
+  };
+};
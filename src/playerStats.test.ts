@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  calculateDirectionBias,
+  calculatePlayerStats,
+  calculateStreaks,
+  summarizePerformance,
+} from './playerStats.js';
+import { type Prediction } from './prediction.js';
+
+describe('player statistics', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-01T00:00:00.000Z',
+    targetDate: '2024-03-04',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Test',
+  };
+
+  const history: Prediction[] = [
+    basePrediction,
+    { ...basePrediction, id: 2, targetDate: '2024-03-05', closePrice: 105 },
+    { ...basePrediction, id: 3, targetDate: '2024-03-06', closePrice: 95, symbol: 'msft' },
+    {
+      ...basePrediction,
+      id: 4,
+      targetDate: '2024-03-08',
+      period: 'week',
+      prediction: 'down',
+      closePrice: 102,
+      symbol: 'MSFT',
+    },
+    { ...basePrediction, id: 5, targetDate: '2024-03-28', prediction: 'down', closePrice: 80 },
+    { ...basePrediction, id: 6, targetDate: '2024-04-01', status: 'pending', closePrice: null },
+  ];
+
+  it('summarizes hit rate and points for resolved predictions', () => {
+    expect(summarizePerformance(history)).toEqual({
+      count: 5,
+      hits: 3,
+      misses: 2,
+      hitRate: 0.6,
+      pointsS1: 1,
+      pointsS2: 28,
+      averageS2: 5.6,
+    });
+  });
+
+  it('tracks current and longest streaks in target-date order', () => {
+    expect(calculateStreaks([...history].reverse())).toEqual({
+      current: 1,
+      longestWin: 2,
+      longestLoss: 2,
+    });
+    expect(calculateStreaks([])).toEqual({ current: 0, longestWin: 0, longestLoss: 0 });
+  });
+
+  it('measures up-call bias against market outcomes', () => {
+    expect(calculateDirectionBias(history)).toEqual({
+      upCallRate: 0.6,
+      upOutcomeRate: 0.6,
+      bias: 0,
+    });
+    expect(calculateDirectionBias([]).bias).toBeNull();
+  });
+
+  it('builds the full profile with breakdowns, form and extreme calls', () => {
+    const stats = calculatePlayerStats(history, { asOf: '2024-03-30' });
+
+    expect(stats.totalPredictions).toBe(6);
+    expect(stats.pendingCount).toBe(1);
+    expect(Object.keys(stats.bySymbol)).toEqual(['AAPL', 'MSFT']);
+    expect(stats.bySymbol.MSFT).toMatchObject({ count: 2, hits: 0 });
+    expect(stats.byPeriod.week).toMatchObject({ count: 1, pointsS1: -1 });
+    expect(stats.byPeriod.month).toBeUndefined();
+    expect(stats.form.last7Days).toMatchObject({ count: 1, hits: 1 });
+    expect(stats.form.last30Days.count).toBe(5);
+    expect(stats.bestCall?.prediction.id).toBe(5);
+    expect(stats.bestCall?.pointsS2).toBeCloseTo(20);
+    expect(stats.worstCall?.prediction.id).toBe(3);
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  calculateSystem1Points,
+  calculateSystem2Points,
+  getActualDirection,
+  type Prediction,
+  type PredictionPeriod,
+} from './prediction.js';
+import { addCalendarDays, DEFAULT_EXCHANGE, getExchangeDateTime } from './tradingCalendar.js';
+
+export interface PerformanceSummary {
+  count: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  pointsS1: number;
+  pointsS2: number;
+  averageS2: number | null;
+}
+
+export interface StreakStats {
+  /** Positive for a run of hits, negative for a run of misses, 0 without resolved calls. */
+  current: number;
+  longestWin: number;
+  longestLoss: number;
+}
+
+export interface ScoredCall {
+  prediction: Prediction;
+  pointsS2: number;
+}
+
+export interface DirectionBias {
+  upCallRate: number | null;
+  upOutcomeRate: number | null;
+  /** Up-call rate minus the rate at which the market actually went up. */
+  bias: number | null;
+}
+
+export interface PlayerStats {
+  totalPredictions: number;
+  pendingCount: number;
+  overall: PerformanceSummary;
+  streaks: StreakStats;
+  bySymbol: Record<string, PerformanceSummary>;
+  byPeriod: Partial<Record<PredictionPeriod, PerformanceSummary>>;
+  form: {
+    last7Days: PerformanceSummary;
+    last30Days: PerformanceSummary;
+  };
+  bestCall: ScoredCall | null;
+  worstCall: ScoredCall | null;
+  bias: DirectionBias;
+}
+
+export interface PlayerStatsOptions {
+  /** Exchange date (YYYY-MM-DD) the rolling form windows end on; defaults to today in New York. */
+  asOf?: string;
+}
+
+const isResolved = (prediction: Prediction): boolean => getActualDirection(prediction) !== null;
+
+const isHit = (prediction: Prediction): boolean =>
+  getActualDirection(prediction) === prediction.prediction;
+
+const compareByTarget = (a: Prediction, b: Prediction): number =>
+  a.targetDate.localeCompare(b.targetDate) || a.madeAt.localeCompare(b.madeAt) || a.id - b.id;
+
+export const summarizePerformance = (predictions: Prediction[]): PerformanceSummary => {
+  const resolved = predictions.filter(isResolved);
+  const hits = resolved.filter(isHit).length;
+  const pointsS2 = calculateSystem2Points(resolved);
+
+  return {
+    count: resolved.length,
+    hits,
+    misses: resolved.length - hits,
+    hitRate: resolved.length > 0 ? hits / resolved.length : null,
+    pointsS1: calculateSystem1Points(resolved),
+    pointsS2,
+    averageS2: resolved.length > 0 ? pointsS2 / resolved.length : null,
+  };
+};
+
+/** Streaks over resolved predictions in target-date order. */
+export const calculateStreaks = (predictions: Prediction[]): StreakStats => {
+  const ordered = predictions.filter(isResolved).sort(compareByTarget);
+  let current = 0;
+  let longestWin = 0;
+  let longestLoss = 0;
+
+  ordered.forEach((prediction) => {
+    if (isHit(prediction)) {
+      current = current > 0 ? current + 1 : 1;
+      longestWin = Math.max(longestWin, current);
+    } else {
+      current = current < 0 ? current - 1 : -1;
+      longestLoss = Math.max(longestLoss, -current);
+    }
+  });
+
+  return { current, longestWin, longestLoss };
+};
+
+const groupBy = <K extends string>(
+  predictions: Prediction[],
+  keyOf: (prediction: Prediction) => K,
+): Partial<Record<K, PerformanceSummary>> => {
+  const groups = new Map<K, Prediction[]>();
+
+  predictions.forEach((prediction) => {
+    const key = keyOf(prediction);
+    groups.set(key, [...(groups.get(key) ?? []), prediction]);
+  });
+
+  const result: Partial<Record<K, PerformanceSummary>> = {};
+  Array.from(groups.keys())
+    .sort()
+    .forEach((key) => {
+      result[key] = summarizePerformance(groups.get(key) ?? []);
+    });
+  return result;
+};
+
+const summarizeWindow = (predictions: Prediction[], asOf: string, days: number) => {
+  const since = addCalendarDays(asOf, -(days - 1));
+  return summarizePerformance(
+    predictions.filter(
+      (prediction) => prediction.targetDate >= since && prediction.targetDate <= asOf,
+    ),
+  );
+};
+
+const findExtremeCalls = (predictions: Prediction[]) => {
+  const scored: ScoredCall[] = predictions
+    .filter((prediction) => isResolved(prediction) && prediction.openPrice !== 0)
+    .sort(compareByTarget)
+    .map((prediction) => ({ prediction, pointsS2: calculateSystem2Points([prediction]) }));
+
+  return scored.reduce<{ bestCall: ScoredCall | null; worstCall: ScoredCall | null }>(
+    (extremes, call) => ({
+      bestCall:
+        !extremes.bestCall || call.pointsS2 > extremes.bestCall.pointsS2 ? call : extremes.bestCall,
+      worstCall:
+        !extremes.worstCall || call.pointsS2 < extremes.worstCall.pointsS2
+          ? call
+          : extremes.worstCall,
+    }),
+    { bestCall: null, worstCall: null },
+  );
+};
+
+export const calculateDirectionBias = (predictions: Prediction[]): DirectionBias => {
+  const resolved = predictions.filter(isResolved);
+
+  if (resolved.length === 0) {
+    return { upCallRate: null, upOutcomeRate: null, bias: null };
+  }
+
+  const upCallRate =
+    resolved.filter((prediction) => prediction.prediction === 'up').length / resolved.length;
+  const upOutcomeRate =
+    resolved.filter((prediction) => getActualDirection(prediction) === 'up').length /
+    resolved.length;
+
+  return { upCallRate, upOutcomeRate, bias: upCallRate - upOutcomeRate };
+};
+
+/**
+ * Computes a player's performance profile from their predictions. Only resolved predictions
+ * with prices count towards rates and points; pending ones are reported by count alone.
+ */
+export const calculatePlayerStats = (
+  predictions: Prediction[],
+  options: PlayerStatsOptions = {},
+): PlayerStats => {
+  const asOf = options.asOf ?? getExchangeDateTime(DEFAULT_EXCHANGE).date;
+  const { bestCall, worstCall } = findExtremeCalls(predictions);
+
+  return {
+    totalPredictions: predictions.length,
+    pendingCount: predictions.filter((prediction) => prediction.status === 'pending').length,
+    overall: summarizePerformance(predictions),
+    streaks: calculateStreaks(predictions),
+    bySymbol: groupBy(predictions, (prediction) =>
+      prediction.symbol.trim().toUpperCase(),
+    ) as Record<string, PerformanceSummary>,
+    byPeriod: groupBy(predictions, (prediction) => prediction.period),
+    form: {
+      last7Days: summarizeWindow(predictions, asOf, 7),
+      last30Days: summarizeWindow(predictions, asOf, 30),
+    },
+    bestCall,
+    worstCall,
+    bias: calculateDirectionBias(predictions),
+  };
+};
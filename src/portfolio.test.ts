@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+
+import { type DailyBar } from './alphaVantage.js';
+import {
+  calculateCommission,
+  createPortfolio,
+  executeTrade,
+  getEquityCurve,
+  getPortfolioAsOf,
+  getPortfolioStandings,
+  markToMarket,
+  type Portfolio,
+  type TradeOrder,
+  type TradeOptions,
+} from './portfolio.js';
+import { sanitizeUserEntry } from './prediction.js';
+
+const bar = (date: string, close: number): DailyBar => ({
+  date,
+  open: close,
+  high: close,
+  low: close,
+  close,
+});
+
+const trade = (portfolio: Portfolio, order: TradeOrder, options?: TradeOptions): Portfolio => {
+  const result = executeTrade(portfolio, order, options);
+
+  if (!result.ok) {
+    throw new Error(`Trade rejected: ${result.reason}`);
+  }
+
+  return result.portfolio;
+};
+
+const start = () => createPortfolio(10_000, new Date('2024-03-01T00:00:00.000Z'));
+
+describe('executeTrade', () => {
+  it('tracks average cost, realized P&L and the cash ledger', () => {
+    let portfolio = trade(start(), {
+      symbol: 'aapl',
+      side: 'buy',
+      quantity: 10,
+      price: 100,
+      executedAt: '2024-03-04T15:00:00.000Z',
+    });
+    portfolio = trade(portfolio, {
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      price: 110,
+      executedAt: '2024-03-05T15:00:00.000Z',
+    });
+
+    expect(portfolio.positions.AAPL).toEqual({
+      symbol: 'AAPL',
+      quantity: 20,
+      averageCost: 105,
+      realizedPnl: 0,
+    });
+
+    portfolio = trade(
+      portfolio,
+      { symbol: 'AAPL', side: 'sell', quantity: 5, price: 120, executedAt: '2024-03-06T15:00:00Z' },
+      { commission: { perTrade: 1, percent: 0.1 } },
+    );
+
+    expect(portfolio.positions.AAPL).toMatchObject({ quantity: 15, averageCost: 105 });
+    expect(portfolio.realizedPnl).toBe(75);
+    expect(portfolio.commissionsPaid).toBe(1.6);
+    expect(portfolio.cash).toBe(10_000 - 1000 - 1100 + 600 - 1.6);
+    expect(
+      portfolio.ledger.map(({ reason, amount, balance }) => [reason, amount, balance]),
+    ).toEqual([
+      ['deposit', 10_000, 10_000],
+      ['trade', -1000, 9000],
+      ['trade', -1100, 7900],
+      ['trade', 600, 8500],
+      ['commission', -1.6, 8498.4],
+    ]);
+  });
+
+  it('flips from long to short and covers shorts with realized P&L', () => {
+    let portfolio = trade(start(), { symbol: 'MSFT', side: 'buy', quantity: 10, price: 50 });
+    portfolio = trade(portfolio, { symbol: 'MSFT', side: 'sell', quantity: 15, price: 60 });
+
+    expect(portfolio.positions.MSFT).toMatchObject({
+      quantity: -5,
+      averageCost: 60,
+      realizedPnl: 100,
+    });
+
+    portfolio = trade(portfolio, { symbol: 'MSFT', side: 'buy', quantity: 5, price: 40 });
+
+    expect(portfolio.positions.MSFT).toMatchObject({ quantity: 0, realizedPnl: 200 });
+    expect(portfolio.cash).toBe(10_200);
+  });
+
+  it('refuses orders the account cannot afford', () => {
+    const portfolio = start();
+
+    expect(
+      executeTrade(
+        portfolio,
+        { symbol: 'AAPL', side: 'buy', quantity: 100, price: 100 },
+        {
+          commission: { minimum: 5 },
+        },
+      ),
+    ).toEqual({ ok: false, reason: 'insufficient-cash' });
+    expect(
+      executeTrade(
+        portfolio,
+        { symbol: 'AAPL', side: 'sell', quantity: 1, price: 100 },
+        { allowShort: false },
+      ),
+    ).toEqual({ ok: false, reason: 'short-selling-disabled' });
+    expect(
+      executeTrade(portfolio, { symbol: 'AAPL', side: 'sell', quantity: 250, price: 100 }),
+    ).toEqual({ ok: false, reason: 'insufficient-margin' });
+    expect(() =>
+      executeTrade(portfolio, { symbol: 'AAPL', side: 'buy', quantity: 1.5, price: 1 }),
+    ).toThrow(RangeError);
+  });
+
+  it('applies commission floors', () => {
+    expect(calculateCommission(1000, { percent: 0.05, minimum: 1 })).toBe(1);
+    expect(calculateCommission(10_000, { percent: 0.05, minimum: 1 })).toBe(5);
+    expect(calculateCommission(10_000)).toBe(0);
+  });
+});
+
+describe('mark to market', () => {
+  const barsBySymbol = {
+    AAPL: [bar('2024-03-04', 100), bar('2024-03-05', 104), bar('2024-03-06', 98)],
+    MSFT: [bar('2024-03-05', 50), bar('2024-03-06', 45)],
+  };
+
+  const build = () => {
+    let portfolio = trade(start(), {
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      price: 100,
+      executedAt: '2024-03-04T15:00:00.000Z',
+    });
+    portfolio = trade(portfolio, {
+      symbol: 'MSFT',
+      side: 'sell',
+      quantity: 20,
+      price: 50,
+      executedAt: '2024-03-05T15:00:00.000Z',
+    });
+    return portfolio;
+  };
+
+  it('values open positions at the latest close on or before the date', () => {
+    const valuation = markToMarket(build(), barsBySymbol, '2024-03-07');
+
+    expect(valuation).toMatchObject({
+      cash: 10_000,
+      marketValue: 980 - 900,
+      equity: 10_080,
+      unrealizedPnl: -20 + 100,
+      missingPrices: [],
+    });
+    expect(valuation.returnPercent).toBeCloseTo(0.8);
+
+    const { missingPrices, positions } = markToMarket(build(), {}, '2024-03-07');
+    expect(missingPrices).toEqual(['AAPL', 'MSFT']);
+    expect(positions[0].unrealizedPnl).toBe(0);
+  });
+
+  it('replays trades to build a daily equity curve', () => {
+    const portfolio = build();
+
+    expect(getPortfolioAsOf(portfolio, '2024-03-04').positions).toEqual({
+      AAPL: portfolio.positions.AAPL,
+    });
+    expect(getEquityCurve(portfolio, barsBySymbol, '2024-03-02', '2024-03-06')).toEqual([
+      { date: '2024-03-04', equity: 10_000 },
+      { date: '2024-03-05', equity: 10_040 },
+      { date: '2024-03-06', equity: 10_080 },
+    ]);
+  });
+
+  it('ranks portfolios by equity alongside direction-call points', () => {
+    const standings = getPortfolioStandings(
+      { Bravo: start(), Alpha: build(), Charlie: start() },
+      barsBySymbol,
+      '2024-03-06',
+      { Alpha: sanitizeUserEntry('Alpha', { predictions: [] }) },
+    );
+
+    expect(
+      standings.map(({ username, rank, equity, pointsS1 }) => [username, rank, equity, pointsS1]),
+    ).toEqual([
+      ['Alpha', 1, 10_080, 0],
+      ['Bravo', 2, 10_000, null],
+      ['Charlie', 3, 10_000, null],
+    ]);
+  });
+});
@@ -0,0 +1,440 @@
+import { type DailyBar } from './alphaVantage.js';
+import { type LeagueUsers } from './prediction.js';
+import {
+  DEFAULT_EXCHANGE,
+  getExchangeDateTime,
+  getNextTradingDay,
+  isTradingDay,
+  type ExchangeId,
+} from './tradingCalendar.js';
+
+/** A sell beyond the held quantity opens (or adds to) a short position. */
+export type TradeSide = 'buy' | 'sell';
+
+export interface Trade {
+  id: number;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  executedAt: string;
+}
+
+export interface CommissionSchedule {
+  perTrade?: number;
+  /** Percentage of the trade's notional value. */
+  percent?: number;
+  /** Floor applied after adding the flat and percentage parts. */
+  minimum?: number;
+}
+
+export interface Position {
+  symbol: string;
+  /** Negative for short positions. */
+  quantity: number;
+  /** Average entry price of the open quantity, excluding commissions. */
+  averageCost: number;
+  realizedPnl: number;
+}
+
+export type CashEntryReason = 'deposit' | 'trade' | 'commission';
+
+export interface CashEntry {
+  at: string;
+  reason: CashEntryReason;
+  tradeId: number | null;
+  amount: number;
+  balance: number;
+}
+
+export interface Portfolio {
+  startingCash: number;
+  cash: number;
+  positions: Record<string, Position>;
+  trades: Trade[];
+  ledger: CashEntry[];
+  /** Closed-trade P&L before commissions. */
+  realizedPnl: number;
+  commissionsPaid: number;
+  createdAt: string;
+}
+
+export interface TradeOrder {
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  executedAt?: string;
+}
+
+export interface TradeOptions {
+  commission?: CommissionSchedule;
+  /** Defaults to true. */
+  allowShort?: boolean;
+}
+
+/**
+ * Why an otherwise valid order was refused:
+ * - `insufficient-cash`: a buy costs more than the available cash.
+ * - `short-selling-disabled`: a sell exceeds the held quantity and shorts are off.
+ * - `insufficient-margin`: after the trade, cash would not cover `SHORT_MARGIN_RATIO` times
+ *   the open short exposure.
+ */
+export type TradeRejection = 'insufficient-cash' | 'short-selling-disabled' | 'insufficient-margin';
+
+export type TradeResult =
+  | { ok: true; portfolio: Portfolio; trade: Trade }
+  | { ok: false; reason: TradeRejection };
+
+export interface PositionValuation extends Position {
+  price: number;
+  marketValue: number;
+  unrealizedPnl: number;
+}
+
+export interface PortfolioValuation {
+  date: string;
+  cash: number;
+  marketValue: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  commissionsPaid: number;
+  /** Equity relative to starting cash, as a percentage. */
+  returnPercent: number;
+  positions: PositionValuation[];
+  /** Symbols with no close on or before `date`; they are valued at average cost. */
+  missingPrices: string[];
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+}
+
+export interface PortfolioStanding {
+  username: string;
+  rank: number;
+  equity: number;
+  returnPercent: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  /** Direction-call points from the player's `LeagueEntry`, or null without one. */
+  pointsS1: number | null;
+  pointsS2: number | null;
+}
+
+export const DEFAULT_STARTING_CASH = 100_000;
+/** Cash that must remain per unit of short exposure, measured at entry price. */
+export const SHORT_MARGIN_RATIO = 1.5;
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export const calculateCommission = (notional: number, schedule: CommissionSchedule = {}): number =>
+  roundCents(
+    Math.max(
+      (schedule.perTrade ?? 0) + (notional * (schedule.percent ?? 0)) / 100,
+      schedule.minimum ?? 0,
+    ),
+  );
+
+export const createPortfolio = (
+  startingCash: number = DEFAULT_STARTING_CASH,
+  now: Date = new Date(),
+): Portfolio => {
+  if (!Number.isFinite(startingCash) || startingCash <= 0) {
+    throw new RangeError('Starting cash must be a positive amount.');
+  }
+
+  const cash = roundCents(startingCash);
+  const createdAt = now.toISOString();
+
+  return {
+    startingCash: cash,
+    cash,
+    positions: {},
+    trades: [],
+    ledger: [{ at: createdAt, reason: 'deposit', tradeId: null, amount: cash, balance: cash }],
+    realizedPnl: 0,
+    commissionsPaid: 0,
+    createdAt,
+  };
+};
+
+const getShortExposure = (positions: Record<string, Position>): number =>
+  Object.values(positions).reduce(
+    (total, position) =>
+      position.quantity < 0 ? total + -position.quantity * position.averageCost : total,
+    0,
+  );
+
+/** Applies a trade that has already been checked, returning the updated portfolio. */
+const applyTrade = (portfolio: Portfolio, trade: Trade): Portfolio => {
+  const signedQuantity = trade.side === 'buy' ? trade.quantity : -trade.quantity;
+  const current = portfolio.positions[trade.symbol] ?? {
+    symbol: trade.symbol,
+    quantity: 0,
+    averageCost: 0,
+    realizedPnl: 0,
+  };
+  const isClosing =
+    current.quantity !== 0 && Math.sign(current.quantity) !== Math.sign(signedQuantity);
+  const closedQuantity = isClosing ? Math.min(Math.abs(current.quantity), trade.quantity) : 0;
+  const realized = roundCents(
+    closedQuantity * (trade.price - current.averageCost) * Math.sign(current.quantity),
+  );
+  const quantity = current.quantity + signedQuantity;
+  let { averageCost } = current;
+
+  if (quantity === 0) {
+    averageCost = 0;
+  } else if (!isClosing) {
+    averageCost =
+      (Math.abs(current.quantity) * current.averageCost + trade.quantity * trade.price) /
+      Math.abs(quantity);
+  } else if (Math.sign(quantity) !== Math.sign(current.quantity)) {
+    // The trade closed the old position and opened one on the other side at its price.
+    averageCost = trade.price;
+  }
+
+  const positions = { ...portfolio.positions };
+
+  if (quantity === 0 && current.realizedPnl + realized === 0) {
+    delete positions[trade.symbol];
+  } else {
+    positions[trade.symbol] = {
+      symbol: trade.symbol,
+      quantity,
+      averageCost,
+      realizedPnl: roundCents(current.realizedPnl + realized),
+    };
+  }
+
+  const amount = roundCents(-signedQuantity * trade.price);
+  const afterTrade = roundCents(portfolio.cash + amount);
+  const cash = roundCents(afterTrade - trade.commission);
+  const ledger: CashEntry[] = [
+    ...portfolio.ledger,
+    { at: trade.executedAt, reason: 'trade', tradeId: trade.id, amount, balance: afterTrade },
+  ];
+
+  if (trade.commission > 0) {
+    ledger.push({
+      at: trade.executedAt,
+      reason: 'commission',
+      tradeId: trade.id,
+      amount: -trade.commission,
+      balance: cash,
+    });
+  }
+
+  return {
+    ...portfolio,
+    cash,
+    positions,
+    trades: [...portfolio.trades, trade],
+    ledger,
+    realizedPnl: roundCents(portfolio.realizedPnl + realized),
+    commissionsPaid: roundCents(portfolio.commissionsPaid + trade.commission),
+  };
+};
+
+/**
+ * Executes an order at the given price. Buys are paid from cash (there is no margin on longs);
+ * sells first reduce a long position and then open a short, whose proceeds are credited to cash.
+ */
+export const executeTrade = (
+  portfolio: Portfolio,
+  order: TradeOrder,
+  options: TradeOptions = {},
+): TradeResult => {
+  const symbol = normalizeSymbol(order.symbol);
+
+  if (!symbol) {
+    throw new RangeError('Orders need a ticker symbol.');
+  }
+
+  if (!Number.isInteger(order.quantity) || order.quantity < 1) {
+    throw new RangeError('Order quantity must be a whole number of shares of at least 1.');
+  }
+
+  if (!Number.isFinite(order.price) || order.price <= 0) {
+    throw new RangeError('Order price must be a positive amount.');
+  }
+
+  const notional = order.quantity * order.price;
+  const trade: Trade = {
+    id: portfolio.trades.reduce((highest, existing) => Math.max(highest, existing.id), 0) + 1,
+    symbol,
+    side: order.side,
+    quantity: order.quantity,
+    price: order.price,
+    commission: calculateCommission(notional, options.commission),
+    executedAt: order.executedAt ?? new Date().toISOString(),
+  };
+  const held = portfolio.positions[symbol]?.quantity ?? 0;
+
+  if (order.side === 'buy' && roundCents(notional + trade.commission) > portfolio.cash) {
+    return { ok: false, reason: 'insufficient-cash' };
+  }
+
+  if (order.side === 'sell' && order.quantity > Math.max(held, 0) && options.allowShort === false) {
+    return { ok: false, reason: 'short-selling-disabled' };
+  }
+
+  const next = applyTrade(portfolio, trade);
+  const shortExposure = getShortExposure(next.positions);
+
+  if (
+    order.side === 'sell' &&
+    shortExposure > getShortExposure(portfolio.positions) &&
+    next.cash < shortExposure * SHORT_MARGIN_RATIO
+  ) {
+    return { ok: false, reason: 'insufficient-margin' };
+  }
+
+  return { ok: true, portfolio: next, trade };
+};
+
+/** Values a portfolio at the given prices; symbols without a price are held at average cost. */
+export const valuePortfolio = (
+  portfolio: Portfolio,
+  prices: Record<string, number>,
+  date: string,
+): PortfolioValuation => {
+  const missingPrices: string[] = [];
+  const positions = Object.values(portfolio.positions)
+    .filter((position) => position.quantity !== 0)
+    .map((position): PositionValuation => {
+      const quoted = prices[position.symbol];
+      const hasPrice = typeof quoted === 'number' && Number.isFinite(quoted);
+
+      if (!hasPrice) {
+        missingPrices.push(position.symbol);
+      }
+
+      const price = hasPrice ? quoted : position.averageCost;
+      return {
+        ...position,
+        price,
+        marketValue: roundCents(position.quantity * price),
+        unrealizedPnl: roundCents(position.quantity * (price - position.averageCost)),
+      };
+    });
+  const marketValue = roundCents(
+    positions.reduce((total, position) => total + position.marketValue, 0),
+  );
+  const equity = roundCents(portfolio.cash + marketValue);
+
+  return {
+    date,
+    cash: portfolio.cash,
+    marketValue,
+    equity,
+    realizedPnl: portfolio.realizedPnl,
+    unrealizedPnl: roundCents(
+      positions.reduce((total, position) => total + position.unrealizedPnl, 0),
+    ),
+    commissionsPaid: portfolio.commissionsPaid,
+    returnPercent: ((equity - portfolio.startingCash) / portfolio.startingCash) * 100,
+    positions,
+    missingPrices,
+  };
+};
+
+const getCloseOnOrBefore = (bars: DailyBar[], date: string): number | undefined =>
+  bars.reduce<DailyBar | undefined>(
+    (latest, bar) => (bar.date <= date && (!latest || bar.date > latest.date) ? bar : latest),
+    undefined,
+  )?.close;
+
+/** Closing prices on or before `date` for every symbol the portfolio holds. */
+export const getClosingPrices = (
+  portfolio: Portfolio,
+  barsBySymbol: Record<string, DailyBar[]>,
+  date: string,
+): Record<string, number> => {
+  const prices: Record<string, number> = {};
+
+  Object.keys(portfolio.positions).forEach((symbol) => {
+    const close = getCloseOnOrBefore(barsBySymbol[symbol] ?? [], date);
+
+    if (close !== undefined) {
+      prices[symbol] = close;
+    }
+  });
+
+  return prices;
+};
+
+/** Marks a portfolio to market with the latest daily close on or before `date`. */
+export const markToMarket = (
+  portfolio: Portfolio,
+  barsBySymbol: Record<string, DailyBar[]>,
+  date: string,
+): PortfolioValuation =>
+  valuePortfolio(portfolio, getClosingPrices(portfolio, barsBySymbol, date), date);
+
+/** Rebuilds the portfolio from its trades as it stood at the close of an exchange date. */
+export const getPortfolioAsOf = (
+  portfolio: Portfolio,
+  date: string,
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+): Portfolio =>
+  portfolio.trades
+    .filter((trade) => getExchangeDateTime(exchange, new Date(trade.executedAt)).date <= date)
+    .reduce(applyTrade, createPortfolio(portfolio.startingCash, new Date(portfolio.createdAt)));
+
+/** End-of-day equity for each trading day from `startDate` to `endDate`. */
+export const getEquityCurve = (
+  portfolio: Portfolio,
+  barsBySymbol: Record<string, DailyBar[]>,
+  startDate: string,
+  endDate: string,
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+): EquityPoint[] => {
+  const points: EquityPoint[] = [];
+  let date = isTradingDay(exchange, startDate) ? startDate : getNextTradingDay(exchange, startDate);
+
+  while (date <= endDate) {
+    const { equity } = markToMarket(
+      getPortfolioAsOf(portfolio, date, exchange),
+      barsBySymbol,
+      date,
+    );
+    points.push({ date, equity });
+    date = getNextTradingDay(exchange, date);
+  }
+
+  return points;
+};
+
+/**
+ * Ranks players by marked-to-market equity, ties broken by username. Each standing carries the
+ * player's S1/S2 points from `users` so both games can be shown side by side.
+ */
+export const getPortfolioStandings = (
+  portfolios: Record<string, Portfolio>,
+  barsBySymbol: Record<string, DailyBar[]>,
+  date: string,
+  users: LeagueUsers = {},
+): PortfolioStanding[] =>
+  Object.entries(portfolios)
+    .map(([username, portfolio]) => ({
+      username,
+      valuation: markToMarket(portfolio, barsBySymbol, date),
+    }))
+    .sort((a, b) => b.valuation.equity - a.valuation.equity || a.username.localeCompare(b.username))
+    .map(({ username, valuation }, index) => ({
+      username,
+      rank: index + 1,
+      equity: valuation.equity,
+      returnPercent: valuation.returnPercent,
+      realizedPnl: valuation.realizedPnl,
+      unrealizedPnl: valuation.unrealizedPnl,
+      pointsS1: users[username]?.pointsS1 ?? null,
+      pointsS2: users[username]?.pointsS2 ?? null,
+    }));
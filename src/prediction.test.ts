@@ -1,19 +1,25 @@
 import { describe, expect, it } from 'vitest';
 
+import { commitPrediction } from './commitReveal.js';
 import {
+  calculateAlphaPoints,
+  calculateBrierPoints,
+  calculateLogScorePoints,
   calculateSystem1Points,
   calculateSystem2Points,
+  calculateSystem3Points,
   formatToYYYYMMDD,
+  getMagnitudeErrorPercent,
+  getRelativeChangePercent,
   getNextFriday,
   getNextMarketDay,
   mergeLeagueUsers,
   normalizeUsers,
   sanitizeUserEntry,
-  shouldReplaceUserEntry,
   type LeagueEntry,
   type LeagueUsers,
   type Prediction,
-} from './prediction';
+} from './prediction.js';
 
 describe('prediction utilities', () => {
   const basePrediction: Prediction = {
@@ -47,6 +53,18 @@ describe('prediction utilities', () => {
     expect(formatToYYYYMMDD(nextMarketDay)).toBe('2024-03-04');
   });
 
+  it('skips exchange holidays when picking day and week targets', () => {
+    // Thursday before Good Friday 2024, after the close in New York.
+    const thursday = new Date('2024-03-28T21:00:00Z');
+    // Saturday before Good Friday week.
+    const saturday = new Date('2024-03-23T12:00:00Z');
+
+    expect(formatToYYYYMMDD(getNextMarketDay(thursday))).toBe('2024-04-01');
+    expect(formatToYYYYMMDD(getNextFriday(saturday))).toBe('2024-03-28');
+    // Thanksgiving 2024 falls on Thursday 28 November.
+    expect(formatToYYYYMMDD(getNextMarketDay(new Date('2024-11-27T21:00:00Z')))).toBe('2024-11-29');
+  });
+
   it('returns next friday from midweek date', () => {
     const monday = new Date('2024-03-04T12:00:00Z');
     const nextFriday = getNextFriday(monday);
@@ -90,30 +108,13 @@ describe('prediction utilities', () => {
     expect(calculateSystem2Points(sanitized.predictions)).toBeGreaterThan(0);
   });
 
-  it('decides whether to replace user entries based on freshness and score', () => {
-    const existing: LeagueEntry = {
-      predictions: [basePrediction],
-      pointsS1: 1,
-      pointsS2: 10,
-      updatedAt: '2024-03-01T00:00:00.000Z',
-    };
-
-    const incoming: LeagueEntry = {
-      predictions: [basePrediction, { ...basePrediction, id: 4 }],
-      pointsS1: 2,
-      pointsS2: 25,
-      updatedAt: '2024-03-02T00:00:00.000Z',
-    };
-
-    expect(shouldReplaceUserEntry(existing, incoming)).toBe(true);
-  });
-
   it('merges league users while tracking additions and updates', () => {
     const existing: LeagueUsers = {
       Alpha: {
         predictions: [basePrediction],
         pointsS1: 1,
         pointsS2: 10,
+        pointsS3: 0,
         updatedAt: '2024-03-01T00:00:00.000Z',
       },
     };
@@ -156,4 +157,336 @@ describe('prediction utilities', () => {
     expect(normalizedUsers.Gamma.predictions[0].user).toBe('Gamma');
     expect(hasChanges).toBe(true);
   });
+
+  it('keeps month, quarter and custom horizon predictions through merges', () => {
+    const incoming = {
+      Delta: {
+        predictions: [
+          { ...basePrediction, id: 7, period: 'month', targetDate: '2024-03-28' },
+          { ...basePrediction, id: 8, period: 'quarter', targetDate: '2024-06-28' },
+          { ...basePrediction, id: 9, period: 'custom', horizonDays: '10' },
+          { ...basePrediction, id: 10, period: 'custom', horizonDays: 0 },
+          { ...basePrediction, id: 11, period: 'fortnight' },
+          { ...basePrediction, id: 12, period: 'day', horizonDays: 5 },
+        ],
+        updatedAt: '2024-03-05T00:00:00.000Z',
+      },
+    };
+
+    const { mergedUsers } = mergeLeagueUsers({}, incoming);
+    const periods = mergedUsers.Delta.predictions.map((prediction) => [
+      prediction.id,
+      prediction.period,
+      prediction.horizonDays,
+    ]);
+
+    expect(periods).toEqual([
+      [7, 'month', undefined],
+      [8, 'quarter', undefined],
+      [9, 'custom', 10],
+      [12, 'day', undefined],
+    ]);
+    expect('horizonDays' in mergedUsers.Delta.predictions[3]).toBe(false);
+  });
+
+  it('scores magnitude targets with error bands', () => {
+    const predictions: Prediction[] = [
+      // Close 110 vs target 110.4: 0.4% of open -> 5 points.
+      { ...basePrediction, target: { kind: 'price', price: 110.4 } },
+      // Actual +10% inside 8..12 -> error is half the 4 point width -> 2 points.
+      {
+        ...basePrediction,
+        id: 2,
+        target: { kind: 'percent-range', minPercent: 8, maxPercent: 12 },
+      },
+      // Actual +10% vs 2..3 -> 7 outside plus 0.5 -> 0 points.
+      { ...basePrediction, id: 3, target: { kind: 'percent-range', minPercent: 2, maxPercent: 3 } },
+      // No magnitude call -> ignored.
+      { ...basePrediction, id: 4 },
+    ];
+
+    expect(getMagnitudeErrorPercent(predictions[0])).toBeCloseTo(0.4);
+    expect(getMagnitudeErrorPercent(predictions[1])).toBeCloseTo(2);
+    expect(getMagnitudeErrorPercent(predictions[3])).toBeNull();
+    expect(calculateSystem3Points(predictions)).toBe(7);
+    expect(
+      calculateSystem3Points([{ ...predictions[0], status: 'pending', closePrice: null }]),
+    ).toBe(0);
+  });
+
+  it('sanitizes magnitude targets and tallies system 3 points', () => {
+    const entry = {
+      predictions: [
+        { ...basePrediction, target: { kind: 'price', price: '110.2' } },
+        {
+          ...basePrediction,
+          id: 2,
+          target: { kind: 'percent-range', minPercent: 5, maxPercent: 1 },
+        },
+        { ...basePrediction, id: 3, target: { kind: 'guess' } },
+      ],
+    };
+
+    const sanitized = sanitizeUserEntry('Magnitude', entry);
+
+    expect(sanitized.predictions[0].target).toEqual({ kind: 'price', price: 110.2 });
+    expect(sanitized.predictions[1].target).toBeUndefined();
+    expect('target' in sanitized.predictions[2]).toBe(false);
+    expect(sanitized.pointsS3).toBe(5);
+    expect(sanitizeUserEntry('Legacy', { pointsS1: 2 }).pointsS3).toBe(0);
+  });
+
+  it('scores confidence with brier and log rules and skips legacy predictions', () => {
+    const boldHit: Prediction = { ...basePrediction, confidence: 100 };
+    const boldMiss: Prediction = { ...basePrediction, id: 2, prediction: 'down', confidence: 100 };
+    const coinFlip: Prediction = { ...basePrediction, id: 3, confidence: 50 };
+    const legacy: Prediction = { ...basePrediction, id: 4 };
+
+    expect(calculateBrierPoints([boldHit])).toBeCloseTo(1);
+    expect(calculateBrierPoints([boldMiss])).toBeCloseTo(-3);
+    expect(calculateBrierPoints([coinFlip, legacy])).toBeCloseTo(0);
+    expect(calculateLogScorePoints([coinFlip, legacy])).toBeCloseTo(0);
+    expect(calculateLogScorePoints([boldHit])).toBeCloseTo(1 + Math.log2(0.99));
+    expect(calculateLogScorePoints([boldMiss])).toBeCloseTo(1 + Math.log2(0.01));
+  });
+
+  it('keeps only confidences between 50 and 100 when sanitizing', () => {
+    const sanitized = sanitizeUserEntry('Confident', {
+      predictions: [
+        { ...basePrediction, confidence: '75' },
+        { ...basePrediction, id: 2, confidence: 30 },
+        { ...basePrediction, id: 3 },
+      ],
+    });
+
+    expect(sanitized.predictions.map((prediction) => prediction.confidence)).toEqual([
+      75,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('scores alpha against the benchmark move over the same window', () => {
+    const withBenchmark: Prediction = {
+      ...basePrediction,
+      benchmark: { symbol: 'SPY', openPrice: 400, closePrice: 420 },
+    };
+    const downCall: Prediction = { ...withBenchmark, id: 2, prediction: 'down' };
+
+    // Stock +10% against a +5% benchmark.
+    expect(getRelativeChangePercent(withBenchmark)).toBeCloseTo(5);
+    expect(calculateAlphaPoints([withBenchmark])).toBeCloseTo(5);
+    expect(calculateAlphaPoints([downCall])).toBeCloseTo(-5);
+    expect(calculateAlphaPoints([basePrediction])).toBe(0);
+    expect(
+      getRelativeChangePercent({
+        ...withBenchmark,
+        benchmark: { symbol: 'SPY', openPrice: 400, closePrice: null },
+      }),
+    ).toBeNull();
+  });
+
+  it('sanitizes stored benchmark prices', () => {
+    const sanitized = sanitizeUserEntry('Alpha', {
+      predictions: [
+        { ...basePrediction, benchmark: { symbol: ' spy ', openPrice: '400', closePrice: 410 } },
+        { ...basePrediction, id: 2, benchmark: { openPrice: 1 } },
+      ],
+    });
+
+    expect(sanitized.predictions[0].benchmark).toEqual({
+      symbol: 'SPY',
+      openPrice: 400,
+      closePrice: 410,
+    });
+    expect('benchmark' in sanitized.predictions[1]).toBe(false);
+  });
+  it('unions predictions by id instead of replacing whole entries', () => {
+    const existing: LeagueUsers = {
+      Alpha: sanitizeUserEntry('Alpha', {
+        predictions: [
+          { ...basePrediction, status: 'pending', closePrice: null },
+          { ...basePrediction, id: 2, targetDate: '2024-01-03' },
+        ],
+        updatedAt: '2024-03-05T00:00:00.000Z',
+      }),
+    };
+    // An older copy from another device: it resolved #1, disputes #2's close and adds #3.
+    const incoming = {
+      Alpha: {
+        predictions: [
+          { ...basePrediction, closePrice: 110, leagueId: 'spring' },
+          { ...basePrediction, id: 2, targetDate: '2024-01-03', closePrice: 120 },
+          { ...basePrediction, id: 3, prediction: 'down' },
+        ],
+        updatedAt: '2024-03-01T00:00:00.000Z',
+      },
+    };
+
+    const summary = mergeLeagueUsers(existing, incoming);
+    const merged = summary.mergedUsers.Alpha;
+
+    expect(summary.updated).toEqual(['Alpha']);
+    expect(merged.predictions.map((prediction) => [prediction.id, prediction.status])).toEqual([
+      [1, 'resolved'],
+      [2, 'resolved'],
+      [3, 'resolved'],
+    ]);
+    expect(merged.predictions[0]).toMatchObject({ closePrice: 110, leagueId: 'spring' });
+    expect(merged.predictions[1].closePrice).toBe(110);
+    expect(merged.updatedAt).toBe('2024-03-05T00:00:00.000Z');
+    expect(merged.pointsS1).toBe(1);
+    expect(summary.conflicts).toEqual([
+      {
+        username: 'Alpha',
+        predictionId: 2,
+        field: 'closePrice',
+        existing: 110,
+        incoming: 120,
+        kept: 'existing',
+      },
+    ]);
+
+    const again = mergeLeagueUsers(summary.mergedUsers, incoming);
+    expect(again.updated).toEqual([]);
+    expect(again.mergedUsers.Alpha).toBe(merged);
+  });
+
+  it('never lets an edited copy overwrite the original call', () => {
+    const original: Prediction = {
+      ...basePrediction,
+      closePrice: 90,
+      confidence: 90,
+      ...commitPrediction({ ...basePrediction, confidence: 90 }, 'nonce-1'),
+    };
+    const edited = { ...original, prediction: 'down', confidence: 50 };
+    const stored: LeagueUsers = { Alpha: sanitizeUserEntry('Alpha', { predictions: [original] }) };
+
+    expect(stored.Alpha.pointsS1).toBe(-1);
+
+    [
+      mergeLeagueUsers(stored, { Alpha: { predictions: [edited] } }),
+      mergeLeagueUsers({ Alpha: sanitizeUserEntry('Alpha', { predictions: [edited] }) }, stored),
+    ].forEach(({ mergedUsers, conflicts }) => {
+      expect(mergedUsers.Alpha.predictions[0]).toMatchObject({ prediction: 'up', confidence: 90 });
+      expect(mergedUsers.Alpha.pointsS1).toBe(-1);
+      expect(conflicts.map(({ field }) => field)).toEqual(['prediction', 'confidence']);
+    });
+
+    // Without commitments the stored copy stands, even against a back-dated edit.
+    const unsigned = { ...basePrediction, closePrice: 90 };
+    const backDated = { ...unsigned, prediction: 'down', madeAt: '2023-12-29T12:00:00.000Z' };
+    const fromBackDated = mergeLeagueUsers(
+      { Alpha: sanitizeUserEntry('Alpha', { predictions: [unsigned] }) },
+      { Alpha: { predictions: [backDated] } },
+    );
+
+    expect(fromBackDated.mergedUsers.Alpha.predictions[0]).toMatchObject({
+      prediction: 'up',
+      madeAt: unsigned.madeAt,
+    });
+    expect(fromBackDated.mergedUsers.Alpha.pointsS1).toBe(-1);
+    expect(fromBackDated.conflicts.map(({ field, kept }) => [field, kept])).toEqual([
+      ['prediction', 'existing'],
+      ['madeAt', 'existing'],
+    ]);
+  });
+
+  it('merges disputed copies to the same result whichever device syncs first', () => {
+    const phone = {
+      Alpha: {
+        predictions: [
+          { ...basePrediction, openPrice: 101, closePrice: 111 },
+          { ...basePrediction, id: 2, status: 'pending', closePrice: null },
+          {
+            ...basePrediction,
+            id: 3,
+            benchmark: { symbol: 'SPY', openPrice: 400, closePrice: 404 },
+          },
+        ],
+        updatedAt: '2024-03-01T00:00:00.000Z',
+      },
+    };
+    const laptop = {
+      Alpha: {
+        predictions: [
+          { ...basePrediction },
+          { ...basePrediction, id: 2, closePrice: 95 },
+          {
+            ...basePrediction,
+            id: 3,
+            benchmark: { symbol: 'SPY', openPrice: 400, closePrice: 440 },
+          },
+        ],
+        updatedAt: '2024-03-02T00:00:00.000Z',
+      },
+    };
+
+    const phoneFirst = mergeLeagueUsers(normalizeUsers(phone).normalizedUsers, laptop);
+    const laptopFirst = mergeLeagueUsers(normalizeUsers(laptop).normalizedUsers, phone);
+    const [disputed, resolved, benchmarked] = phoneFirst.mergedUsers.Alpha.predictions;
+
+    expect(phoneFirst.mergedUsers.Alpha).toEqual(laptopFirst.mergedUsers.Alpha);
+    expect(phoneFirst.mergedUsers.Alpha.updatedAt).toBe('2024-03-02T00:00:00.000Z');
+    // Without market data the prices that score worse for the up call are kept.
+    expect(disputed).toMatchObject({ openPrice: 101, closePrice: 111 });
+    expect(resolved).toMatchObject({ status: 'resolved', closePrice: 95 });
+    expect(benchmarked.benchmark).toEqual({ symbol: 'SPY', openPrice: 400, closePrice: 440 });
+    expect(
+      phoneFirst.conflicts.map(({ predictionId, field, kept }) => [predictionId, field, kept]),
+    ).toEqual([
+      [1, 'openPrice', 'existing'],
+      [1, 'closePrice', 'existing'],
+      [3, 'benchmark', 'incoming'],
+    ]);
+    expect(laptopFirst.conflicts.map(({ kept }) => kept)).toEqual([
+      'incoming',
+      'incoming',
+      'existing',
+    ]);
+  });
+
+  it('settles disputed prices with market data', () => {
+    const real = { ...basePrediction, openPrice: 100, closePrice: 110 };
+    const fake = { ...basePrediction, openPrice: 100, closePrice: 10 };
+    const barsBySymbol = {
+      AAPL: [{ date: '2024-01-02', open: 100, high: 112, low: 99, close: 110 }],
+    };
+    const storedFake: LeagueUsers = { Alpha: sanitizeUserEntry('Alpha', { predictions: [fake] }) };
+    const storedReal: LeagueUsers = { Alpha: sanitizeUserEntry('Alpha', { predictions: [real] }) };
+
+    const checked = mergeLeagueUsers(
+      storedFake,
+      { Alpha: { predictions: [real] } },
+      { barsBySymbol },
+    );
+    expect(checked.mergedUsers.Alpha.predictions[0]).toMatchObject({
+      status: 'resolved',
+      closePrice: 110,
+    });
+    expect(checked.conflicts).toEqual([
+      {
+        username: 'Alpha',
+        predictionId: 1,
+        field: 'closePrice',
+        existing: 10,
+        incoming: 110,
+        kept: 'incoming',
+      },
+    ]);
+    expect(
+      mergeLeagueUsers(storedReal, { Alpha: { predictions: [fake] } }, { barsBySymbol }).mergedUsers
+        .Alpha.predictions[0].closePrice,
+    ).toBe(110);
+
+    // A resolved copy the market contradicts does not replace a pending one.
+    const pending = { ...basePrediction, status: 'pending', closePrice: null };
+    expect(
+      mergeLeagueUsers(
+        { Alpha: sanitizeUserEntry('Alpha', { predictions: [pending] }) },
+        { Alpha: { predictions: [fake] } },
+        { barsBySymbol },
+      ).mergedUsers.Alpha.predictions[0],
+    ).toMatchObject({ status: 'pending', closePrice: null });
+  });
 });
@@ -1,7 +1,33 @@
+import { type DailyBar } from './alphaVantage.js';
+import {
+  checkPredictionIntegrity,
+  verifyReveal,
+  type CommitmentLedger,
+  type IntegrityIssue,
+  type IntegrityMode,
+} from './commitReveal.js';
+import { measurePredictionPrices } from './predictionResolver.js';
+import { getPredictionTargetDate } from './tradingCalendar.js';
+
 export type TrendDirection = 'up' | 'down';
-export type PredictionPeriod = 'day' | 'week';
+export type PredictionPeriod = 'day' | 'week' | 'month' | 'quarter' | 'custom';
 export type PredictionStatus = 'pending' | 'resolved';
 
+/**
+ * Optional magnitude call attached to a direction prediction: either a closing price target
+ * or a range for the percent move over the prediction window.
+ */
+export type MagnitudeTarget =
+  | { kind: 'price'; price: number }
+  | { kind: 'percent-range'; minPercent: number; maxPercent: number };
+
+/** Benchmark prices over the same window as the prediction, for alpha scoring. */
+export interface BenchmarkPrices {
+  symbol: string;
+  openPrice: number | null;
+  closePrice: number | null;
+}
+
 export interface Prediction {
   id: number;
   symbol: string;
@@ -13,28 +39,68 @@ export interface Prediction {
   closePrice: number | null;
   status: PredictionStatus;
   user: string;
+  /** Number of trading sessions covered by a `custom` prediction, ending on `targetDate`. */
+  horizonDays?: number;
+  target?: MagnitudeTarget;
+  /** Stated confidence in the direction call, as a percentage from 50 to 100. */
+  confidence?: number;
+  benchmark?: BenchmarkPrices;
+  /** League the prediction was made in; predictions without one predate leagues. */
+  leagueId?: string;
+  /** SHA-256 commitment recorded when the prediction was made; see `commitReveal`. */
+  commitment?: string;
+  /** Secret revealed with the prediction so the commitment can be checked. */
+  nonce?: string;
 }
 
 export interface LeagueEntry {
   predictions: Prediction[];
   pointsS1: number;
   pointsS2: number;
+  pointsS3: number;
   updatedAt: string;
 }
 
 export type LeagueUsers = Record<string, LeagueEntry>;
 
+export const PREDICTION_PERIODS: readonly PredictionPeriod[] = [
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'custom',
+];
+
+export const MAX_HORIZON_DAYS = 252;
+
+export const DEFAULT_BENCHMARK_SYMBOL = 'SPY';
+
+const COMMITMENT_PATTERN = /^[0-9a-f]{64}$/;
+
+export const MIN_CONFIDENCE = 50;
+export const MAX_CONFIDENCE = 100;
+
+/** Direction the price actually moved over a resolved prediction's window; flat counts as down. */
+export const getActualDirection = (prediction: Prediction): TrendDirection | null => {
+  if (
+    prediction.status !== 'resolved' ||
+    typeof prediction.openPrice !== 'number' ||
+    typeof prediction.closePrice !== 'number'
+  ) {
+    return null;
+  }
+
+  return prediction.closePrice > prediction.openPrice ? 'up' : 'down';
+};
+
 export const calculateSystem1Points = (entries: Prediction[]): number =>
   entries.reduce((total, prediction) => {
-    if (
-      prediction.status !== 'resolved' ||
-      typeof prediction.openPrice !== 'number' ||
-      typeof prediction.closePrice !== 'number'
-    ) {
+    const actualDirection = getActualDirection(prediction);
+
+    if (!actualDirection) {
       return total;
     }
-    const actualDirection: TrendDirection =
-      prediction.closePrice > prediction.openPrice ? 'up' : 'down';
+
     return total + (prediction.prediction === actualDirection ? 1 : -1);
   }, 0);
 
@@ -53,6 +119,153 @@ export const calculateSystem2Points = (entries: Prediction[]): number =>
     return prediction.prediction === 'up' ? total + changePercent : total - changePercent;
   }, 0);
 
+/**
+ * Percent move of the prediction's symbol minus the percent move of its benchmark over the
+ * same window, or null when either side is unresolved.
+ */
+export const getRelativeChangePercent = (prediction: Prediction): number | null => {
+  const { benchmark, openPrice, closePrice } = prediction;
+
+  if (
+    prediction.status !== 'resolved' ||
+    !benchmark ||
+    typeof openPrice !== 'number' ||
+    typeof closePrice !== 'number' ||
+    typeof benchmark.openPrice !== 'number' ||
+    typeof benchmark.closePrice !== 'number' ||
+    openPrice === 0 ||
+    benchmark.openPrice === 0
+  ) {
+    return null;
+  }
+
+  const change = (closePrice - openPrice) / openPrice;
+  const benchmarkChange = (benchmark.closePrice - benchmark.openPrice) / benchmark.openPrice;
+  return (change - benchmarkChange) * 100;
+};
+
+/**
+ * System 2 measured against the benchmark: an `up` call earns the stock's outperformance in
+ * percent and a `down` call its underperformance. Predictions without benchmark prices are
+ * skipped.
+ */
+export const calculateAlphaPoints = (entries: Prediction[]): number =>
+  entries.reduce((total, prediction) => {
+    const relativeChange = getRelativeChangePercent(prediction);
+
+    if (relativeChange === null) {
+      return total;
+    }
+
+    return prediction.prediction === 'up' ? total + relativeChange : total - relativeChange;
+  }, 0);
+
+// Log scores need a finite penalty for a wrong call made at 100% confidence.
+const MAX_LOG_SCORE_PROBABILITY = 0.99;
+
+const getConfidenceOutcome = (
+  prediction: Prediction,
+): { probability: number; isHit: boolean } | null => {
+  const actualDirection = getActualDirection(prediction);
+
+  if (!actualDirection || typeof prediction.confidence !== 'number') {
+    return null;
+  }
+
+  return {
+    probability: prediction.confidence / 100,
+    isHit: prediction.prediction === actualDirection,
+  };
+};
+
+/**
+ * Brier-based points: `4 * (0.25 - (p - outcome)^2)`, so a 50% call scores 0, a correct 100%
+ * call scores 1 and a wrong 100% call costs 3. Predictions without a confidence are skipped.
+ */
+export const calculateBrierPoints = (entries: Prediction[]): number =>
+  entries.reduce((total, prediction) => {
+    const outcome = getConfidenceOutcome(prediction);
+
+    if (!outcome) {
+      return total;
+    }
+
+    const brier = (outcome.probability - (outcome.isHit ? 1 : 0)) ** 2;
+    return total + 4 * (0.25 - brier);
+  }, 0);
+
+/**
+ * Log-score points: `1 + log2(probability assigned to what happened)`, with confidence capped
+ * at 99% so a wrong certain call costs about 5.6 points rather than infinity.
+ */
+export const calculateLogScorePoints = (entries: Prediction[]): number =>
+  entries.reduce((total, prediction) => {
+    const outcome = getConfidenceOutcome(prediction);
+
+    if (!outcome) {
+      return total;
+    }
+
+    const probability = Math.min(outcome.probability, MAX_LOG_SCORE_PROBABILITY);
+    return total + 1 + Math.log2(outcome.isHit ? probability : 1 - probability);
+  }, 0);
+
+export interface System3Band {
+  maxErrorPercent: number;
+  points: number;
+}
+
+/** Points awarded by magnitude error, checked in order; errors beyond the last band score 0. */
+export const SYSTEM3_BANDS: readonly System3Band[] = [
+  { maxErrorPercent: 0.5, points: 5 },
+  { maxErrorPercent: 1, points: 3 },
+  { maxErrorPercent: 2, points: 2 },
+  { maxErrorPercent: 5, points: 1 },
+];
+
+/**
+ * Magnitude error in percentage points of the window's open price. A price target is scored
+ * on its distance from the close; a percent range on its distance from the actual move plus
+ * half its width, so wide ranges cannot collect full points.
+ */
+export const getMagnitudeErrorPercent = (prediction: Prediction): number | null => {
+  const { target, openPrice, closePrice } = prediction;
+
+  if (
+    !target ||
+    prediction.status !== 'resolved' ||
+    typeof openPrice !== 'number' ||
+    typeof closePrice !== 'number' ||
+    openPrice === 0
+  ) {
+    return null;
+  }
+
+  if (target.kind === 'price') {
+    return (Math.abs(closePrice - target.price) / openPrice) * 100;
+  }
+
+  const actualPercent = ((closePrice - openPrice) / openPrice) * 100;
+  const distanceOutside = Math.max(
+    target.minPercent - actualPercent,
+    actualPercent - target.maxPercent,
+    0,
+  );
+  return distanceOutside + (target.maxPercent - target.minPercent) / 2;
+};
+
+export const calculateSystem3Points = (entries: Prediction[]): number =>
+  entries.reduce((total, prediction) => {
+    const error = getMagnitudeErrorPercent(prediction);
+
+    if (error === null) {
+      return total;
+    }
+
+    const band = SYSTEM3_BANDS.find((candidate) => error <= candidate.maxErrorPercent);
+    return total + (band ? band.points : 0);
+  }, 0);
+
 export const formatDate = (date: Date): string =>
   new Intl.DateTimeFormat('en-US', {
     weekday: 'short',
@@ -68,31 +281,27 @@ export const formatToYYYYMMDD = (date: Date): string => {
   return `${year}-${month}-${day}`;
 };
 
-export const getNextMarketDay = (referenceDate: Date = new Date()): Date => {
-  const result = new Date(referenceDate);
-  result.setHours(0, 0, 0, 0);
-  result.setDate(result.getDate() + 1);
-
-  while (result.getDay() === 0 || result.getDay() === 6) {
-    result.setDate(result.getDate() + 1);
-  }
-
-  return result;
+/** Local midnight of a YYYY-MM-DD date, matching what `formatToYYYYMMDD` reads back. */
+const toLocalDate = (isoDate: string): Date => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
 };
 
-export const getNextFriday = (referenceDate: Date = new Date()): Date => {
-  const result = new Date(referenceDate);
-  result.setHours(0, 0, 0, 0);
-  const daysUntilFriday = (5 - result.getDay() + 7) % 7;
-
-  if (daysUntilFriday === 0) {
-    result.setDate(result.getDate() + 7);
-  } else {
-    result.setDate(result.getDate() + daysUntilFriday);
-  }
-
-  return result;
-};
+/**
+ * Target of a `day` call made at `referenceDate`: the next trading day on the default
+ * exchange's calendar, skipping holidays as well as weekends.
+ * @deprecated Use `getPredictionTargetDate('day', referenceDate)`, which returns the date string.
+ */
+export const getNextMarketDay = (referenceDate: Date = new Date()): Date =>
+  toLocalDate(getPredictionTargetDate('day', referenceDate));
+
+/**
+ * Target of a `week` call made at `referenceDate`: the last trading day of the next week that
+ * has not opened yet, which is the Thursday when Friday is a holiday.
+ * @deprecated Use `getPredictionTargetDate('week', referenceDate)`, which returns the date string.
+ */
+export const getNextFriday = (referenceDate: Date = new Date()): Date =>
+  toLocalDate(getPredictionTargetDate('week', referenceDate));
 
 export const formatNumber = (value: string | number | null | undefined): string => {
   if (value === null || value === undefined || value === 'None') {
@@ -125,24 +334,19 @@ export const getValidTimestamp = (value: unknown): number => {
   return Number.isNaN(parsed) ? 0 : parsed;
 };
 
-const isPrediction = (entry: unknown): entry is Prediction => {
-  if (!entry || typeof entry !== 'object') {
-    return false;
+const toHorizonDays = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed)) {
+    return null;
   }
 
-  const candidate = entry as Record<string, unknown>;
-  return (
-    typeof candidate.symbol === 'string' &&
-    (candidate.prediction === 'up' || candidate.prediction === 'down') &&
-    (candidate.period === 'day' || candidate.period === 'week') &&
-    typeof candidate.madeAt === 'string' &&
-    typeof candidate.targetDate === 'string' &&
-    (candidate.status === 'pending' ||
-      candidate.status === 'resolved' ||
-      candidate.status === undefined)
-  );
+  return parsed >= 1 && parsed <= MAX_HORIZON_DAYS ? parsed : null;
 };
 
+export const isPredictionPeriod = (value: unknown): value is PredictionPeriod =>
+  PREDICTION_PERIODS.includes(value as PredictionPeriod);
+
 const toFiniteNumber = (value: unknown): number | null => {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
@@ -158,6 +362,82 @@ const toFiniteNumber = (value: unknown): number | null => {
   return null;
 };
 
+const toConfidence = (value: unknown): number | undefined => {
+  const confidence = toFiniteNumber(value);
+
+  if (confidence === null || confidence < MIN_CONFIDENCE || confidence > MAX_CONFIDENCE) {
+    return undefined;
+  }
+
+  return confidence;
+};
+
+const sanitizeBenchmark = (value: unknown): BenchmarkPrices | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const symbol = typeof candidate.symbol === 'string' ? candidate.symbol.trim().toUpperCase() : '';
+
+  if (!symbol) {
+    return undefined;
+  }
+
+  return {
+    symbol,
+    openPrice: toFiniteNumber(candidate.openPrice),
+    closePrice: toFiniteNumber(candidate.closePrice),
+  };
+};
+
+const sanitizeMagnitudeTarget = (value: unknown): MagnitudeTarget | undefined => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Record<string, unknown>;
+
+  if (candidate.kind === 'price') {
+    const price = toFiniteNumber(candidate.price);
+    return price !== null && price > 0 ? { kind: 'price', price } : undefined;
+  }
+
+  if (candidate.kind === 'percent-range') {
+    const minPercent = toFiniteNumber(candidate.minPercent);
+    const maxPercent = toFiniteNumber(candidate.maxPercent);
+
+    if (minPercent === null || maxPercent === null || minPercent > maxPercent) {
+      return undefined;
+    }
+
+    return { kind: 'percent-range', minPercent, maxPercent };
+  }
+
+  return undefined;
+};
+
+const isPrediction = (entry: unknown): entry is Prediction => {
+  if (!entry || typeof entry !== 'object') {
+    return false;
+  }
+
+  const candidate = entry as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'number' &&
+    Number.isFinite(candidate.id) &&
+    typeof candidate.symbol === 'string' &&
+    (candidate.prediction === 'up' || candidate.prediction === 'down') &&
+    isPredictionPeriod(candidate.period) &&
+    (candidate.period !== 'custom' || toHorizonDays(candidate.horizonDays) !== null) &&
+    typeof candidate.madeAt === 'string' &&
+    typeof candidate.targetDate === 'string' &&
+    (candidate.status === 'pending' ||
+      candidate.status === 'resolved' ||
+      candidate.status === undefined)
+  );
+};
+
 export const sanitizeUserEntry = (
   username: string,
   entry: Partial<LeagueEntry> | Record<string, unknown> = {},
@@ -167,17 +447,54 @@ export const sanitizeUserEntry = (
     : [];
 
   const sanitizedPredictions = rawPredictions.filter(isPrediction).map((prediction) => {
+    const { horizonDays, target, confidence, benchmark, leagueId, commitment, nonce, ...rest } =
+      prediction;
     const openPrice = toFiniteNumber(prediction.openPrice);
     const closePrice = toFiniteNumber(prediction.closePrice);
     const status: PredictionStatus = prediction.status === 'resolved' ? 'resolved' : 'pending';
-
-    return {
-      ...prediction,
+    const sanitized: Prediction = {
+      ...rest,
       openPrice,
       closePrice,
       status,
       user: username,
     };
+
+    if (prediction.period === 'custom') {
+      sanitized.horizonDays = toHorizonDays(horizonDays) as number;
+    }
+
+    const sanitizedTarget = sanitizeMagnitudeTarget(target);
+
+    if (sanitizedTarget) {
+      sanitized.target = sanitizedTarget;
+    }
+
+    const sanitizedConfidence = toConfidence(confidence);
+
+    if (sanitizedConfidence !== undefined) {
+      sanitized.confidence = sanitizedConfidence;
+    }
+
+    const sanitizedBenchmark = sanitizeBenchmark(benchmark);
+
+    if (sanitizedBenchmark) {
+      sanitized.benchmark = sanitizedBenchmark;
+    }
+
+    if (typeof leagueId === 'string' && leagueId.trim()) {
+      sanitized.leagueId = leagueId.trim();
+    }
+
+    if (typeof commitment === 'string' && COMMITMENT_PATTERN.test(commitment)) {
+      sanitized.commitment = commitment;
+    }
+
+    if (typeof nonce === 'string' && nonce) {
+      sanitized.nonce = nonce;
+    }
+
+    return sanitized;
   });
 
   const hasPredictionData = sanitizedPredictions.length > 0;
@@ -187,6 +504,9 @@ export const sanitizeUserEntry = (
   const computedS2 = hasPredictionData
     ? Math.round(calculateSystem2Points(sanitizedPredictions))
     : Math.round(Number((entry as LeagueEntry).pointsS2 ?? 0));
+  const computedS3 = hasPredictionData
+    ? calculateSystem3Points(sanitizedPredictions)
+    : Math.round(Number((entry as LeagueEntry).pointsS3 ?? 0));
 
   const updatedAtCandidate =
     typeof (entry as LeagueEntry).updatedAt === 'string' && (entry as LeagueEntry).updatedAt
@@ -197,59 +517,384 @@ export const sanitizeUserEntry = (
     predictions: sanitizedPredictions,
     pointsS1: computedS1,
     pointsS2: computedS2,
+    pointsS3: computedS3,
     updatedAt: updatedAtCandidate,
   };
 };
 
-export const shouldReplaceUserEntry = (
-  existingEntry: LeagueEntry,
-  incomingEntry: LeagueEntry,
-): boolean => {
-  const existingTimestamp = getValidTimestamp(existingEntry?.updatedAt);
-  const incomingTimestamp = getValidTimestamp(incomingEntry?.updatedAt);
+export interface MergeOptions {
+  exclude?: string[];
+  /** How incoming predictions with timing or commitment problems are treated; default `flag`. */
+  integrity?: IntegrityMode;
+  /** Commitments shared with the league before reveal, checked when provided. */
+  commitmentLedger?: CommitmentLedger;
+  /** Cached daily bars keyed by symbol, used to settle disputed prices between two copies. */
+  barsBySymbol?: Record<string, DailyBar[]>;
+  tolerancePercent?: number;
+}
 
-  if (incomingTimestamp && existingTimestamp) {
-    if (incomingTimestamp > existingTimestamp) {
-      return true;
-    }
+export interface FlaggedPrediction {
+  username: string;
+  predictionId: number;
+  issue: IntegrityIssue;
+  /** True when strict mode dropped the prediction from the merge. */
+  rejected: boolean;
+}
 
-    if (incomingTimestamp < existingTimestamp) {
-      return false;
-    }
-  } else if (incomingTimestamp && !existingTimestamp) {
-    return true;
-  } else if (!incomingTimestamp && existingTimestamp) {
-    return false;
+export type MergedPredictionField = Exclude<keyof Prediction, 'id' | 'user' | 'status'>;
+
+/** Two copies of a prediction disagreeing on a field; the `kept` copy's value is used. */
+export interface PredictionConflict {
+  username: string;
+  predictionId: number;
+  field: MergedPredictionField;
+  existing: unknown;
+  incoming: unknown;
+  kept: 'existing' | 'incoming';
+}
+
+export interface MergeSummary {
+  added: string[];
+  updated: string[];
+  mergedUsers: LeagueUsers;
+  flagged: FlaggedPrediction[];
+  conflicts: PredictionConflict[];
+}
+
+const MERGED_PREDICTION_FIELDS: readonly MergedPredictionField[] = [
+  'symbol',
+  'prediction',
+  'period',
+  'madeAt',
+  'targetDate',
+  'openPrice',
+  'closePrice',
+  'horizonDays',
+  'target',
+  'confidence',
+  'benchmark',
+  'leagueId',
+  'commitment',
+  'nonce',
+];
+
+const PRICE_TOLERANCE = 1e-6;
+
+const isMissing = (value: unknown): boolean => value === undefined || value === null;
+
+const valuesAgree = (a: unknown, b: unknown): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= PRICE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b), 1);
   }
 
-  const existingCount = existingEntry?.predictions?.length ?? 0;
-  const incomingCount = incomingEntry?.predictions?.length ?? 0;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
 
-  if (incomingCount !== existingCount) {
-    return incomingCount > existingCount;
+const isSamePrediction = (a: Prediction, b: Prediction): boolean =>
+  a.status === b.status &&
+  MERGED_PREDICTION_FIELDS.every((field) => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+type CopySide = PredictionConflict['kept'];
+
+/** Fields that define the call itself; a copy that disagrees on any of them has been edited. */
+const IDENTITY_FIELDS: readonly MergedPredictionField[] = [
+  'symbol',
+  'prediction',
+  'period',
+  'madeAt',
+  'targetDate',
+  'horizonDays',
+  'target',
+  'confidence',
+  'commitment',
+  'nonce',
+];
+
+/** Identity fields that decide which sessions a copy's prices were measured over. */
+const WINDOW_FIELDS: readonly MergedPredictionField[] = [
+  'symbol',
+  'period',
+  'targetDate',
+  'horizonDays',
+];
+
+const PRICE_FIELDS: readonly MergedPredictionField[] = ['openPrice', 'closePrice', 'benchmark'];
+
+/** Same default as `exportSigning`'s price checks. */
+const MARKET_TOLERANCE_PERCENT = 0.5;
+
+/**
+ * The copy whose identity fields are trusted: the existing copy, unless only the incoming
+ * copy matches its commitment. Timestamps are never used, since `madeAt` is easy to back-date.
+ */
+const pickOriginalCopy = (existing: Prediction, incoming: Prediction): CopySide =>
+  verifyReveal(incoming) && !verifyReveal(existing) ? 'incoming' : 'existing';
+
+/** Whether cached bars confirm the copy's open and close; null when they cannot tell. */
+const matchesMarket = (prediction: Prediction, options: MergeOptions): boolean | null => {
+  const bars = options.barsBySymbol?.[prediction.symbol.trim().toUpperCase()];
+  const expected = bars ? measurePredictionPrices(prediction, bars) : null;
+  const tolerancePercent = options.tolerancePercent ?? MARKET_TOLERANCE_PERCENT;
+
+  if (!expected) {
+    return null;
   }
 
-  if (incomingEntry.pointsS1 !== existingEntry.pointsS1) {
-    return incomingEntry.pointsS1 > existingEntry.pointsS1;
+  return (['openPrice', 'closePrice'] as const).every((field) => {
+    const recorded = prediction[field];
+    return (
+      recorded !== null &&
+      (Math.abs(recorded - expected[field]) / expected[field]) * 100 <= tolerancePercent
+    );
+  });
+};
+
+/** The copy whose disputed prices the market confirms, or null when it does not single one out. */
+const pickMarketCopy = (
+  existing: Prediction,
+  incoming: Prediction,
+  options: MergeOptions,
+): CopySide | null => {
+  const existingMatches = matchesMarket(existing, options) === true;
+  const incomingMatches = matchesMarket(incoming, options) === true;
+
+  if (existingMatches === incomingMatches) {
+    return null;
   }
 
-  if (incomingEntry.pointsS2 !== existingEntry.pointsS2) {
-    return incomingEntry.pointsS2 > existingEntry.pointsS2;
+  return incomingMatches ? 'incoming' : 'existing';
+};
+
+/**
+ * The copy whose prices score worse for the predictor, so an edited copy can never raise a
+ * score and either sync order gives the same answer. Equal scores fall back to comparing the
+ * serialised values.
+ */
+const pickLessFavourableCopy = (
+  existing: Prediction,
+  incoming: Prediction,
+  score: (prediction: Prediction) => number,
+  fields: readonly MergedPredictionField[],
+): CopySide => {
+  const existingScore = score(existing);
+  const incomingScore = score(incoming);
+
+  if (existingScore !== incomingScore) {
+    return incomingScore < existingScore ? 'incoming' : 'existing';
   }
 
-  return false;
+  const serialize = (prediction: Prediction) =>
+    JSON.stringify(fields.map((field) => prediction[field] ?? null));
+  return serialize(incoming) < serialize(existing) ? 'incoming' : 'existing';
 };
 
-export interface MergeOptions {
-  exclude?: string[];
-}
+const MOVE_FIELDS: readonly MergedPredictionField[] = ['openPrice', 'closePrice'];
+
+/**
+ * Merges two copies of the same prediction. Identity fields come from the original copy (see
+ * `pickOriginalCopy`); if the copies disagree on the prediction window, its prices and status
+ * do too. Otherwise a resolved copy's prices beat a pending one's unless the market data
+ * contradicts them, and fields only one copy has are filled in. Disputed prices go to the copy
+ * the market data confirms, else to the less favourable copy (see `pickLessFavourableCopy`);
+ * other disputes keep the original copy's value. Disagreements are reported.
+ */
+const mergePredictionCopies = (
+  username: string,
+  existing: Prediction,
+  incoming: Prediction,
+  options: MergeOptions,
+  conflicts: PredictionConflict[],
+): Prediction => {
+  const original = pickOriginalCopy(existing, incoming);
+  const originalCopy = original === 'incoming' ? incoming : existing;
+  const sameWindow = WINDOW_FIELDS.every((field) => valuesAgree(existing[field], incoming[field]));
+  const statusesDiffer = sameWindow && existing.status !== incoming.status;
+  const resolvedCopy = existing.status === 'resolved' ? existing : incoming;
+  const resolvedTrusted = statusesDiffer && matchesMarket(resolvedCopy, options) !== false;
+  // Scored with the trusted direction call, so only the prices differ between candidates.
+  const scoredAs = (prediction: Prediction, overrides: Partial<Prediction> = {}): Prediction => ({
+    ...prediction,
+    prediction: originalCopy.prediction,
+    status: 'resolved',
+    ...overrides,
+  });
+  const movesDisputed =
+    sameWindow &&
+    !statusesDiffer &&
+    MOVE_FIELDS.some(
+      (field) =>
+        !isMissing(existing[field]) &&
+        !isMissing(incoming[field]) &&
+        !valuesAgree(existing[field], incoming[field]),
+    );
+  const moveCopy = movesDisputed
+    ? (pickMarketCopy(existing, incoming, options) ??
+      pickLessFavourableCopy(
+        existing,
+        incoming,
+        (prediction) => calculateSystem2Points([scoredAs(prediction)]),
+        MOVE_FIELDS,
+      ))
+    : 'existing';
+  // The open and close the merge ends up with, filled in from whichever copy has them.
+  const mergedMove = (field: 'openPrice' | 'closePrice') => {
+    if (isMissing(existing[field]) || isMissing(incoming[field])) {
+      return existing[field] ?? incoming[field];
+    }
 
-export interface MergeSummary {
-  added: string[];
-  updated: string[];
-  mergedUsers: LeagueUsers;
-}
+    return (moveCopy === 'incoming' ? incoming : existing)[field];
+  };
+  const benchmarkCopy = pickLessFavourableCopy(
+    existing,
+    incoming,
+    (prediction) =>
+      calculateAlphaPoints([
+        scoredAs(prediction, {
+          openPrice: mergedMove('openPrice'),
+          closePrice: mergedMove('closePrice'),
+        }),
+      ]),
+    ['benchmark'],
+  );
+  const merged: Record<string, unknown> = { ...existing };
+
+  if (!sameWindow) {
+    merged.status = originalCopy.status;
+  } else if (statusesDiffer) {
+    merged.status = resolvedTrusted ? 'resolved' : 'pending';
+  }
+
+  const keep = (field: MergedPredictionField, side: CopySide): void => {
+    const value = side === 'incoming' ? incoming[field] : existing[field];
+
+    if (value === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = value;
+    }
+
+    if (!valuesAgree(existing[field], incoming[field])) {
+      conflicts.push({
+        username,
+        predictionId: existing.id,
+        field,
+        existing: existing[field],
+        incoming: incoming[field],
+        kept: side,
+      });
+    }
+  };
+
+  MERGED_PREDICTION_FIELDS.forEach((field) => {
+    const existingValue = existing[field];
+    const incomingValue = incoming[field];
+
+    if (IDENTITY_FIELDS.includes(field) || (!sameWindow && PRICE_FIELDS.includes(field))) {
+      keep(field, original);
+      return;
+    }
+
+    if (statusesDiffer && PRICE_FIELDS.includes(field)) {
+      const pendingCopy = resolvedCopy === existing ? incoming : existing;
+      merged[field] = (resolvedTrusted ? resolvedCopy : pendingCopy)[field];
+      return;
+    }
+
+    if (isMissing(existingValue) || isMissing(incomingValue)) {
+      merged[field] = isMissing(existingValue) ? incomingValue : existingValue;
+      return;
+    }
 
+    if (MOVE_FIELDS.includes(field)) {
+      keep(field, moveCopy);
+    } else if (field === 'benchmark') {
+      keep(field, benchmarkCopy);
+    } else {
+      keep(field, original);
+    }
+  });
+
+  return merged as unknown as Prediction;
+};
+
+/**
+ * Unions two entries' predictions by id, keeping the existing order and appending new
+ * predictions. The later `updatedAt` wins. Returns the existing entry untouched when the
+ * incoming copy adds nothing.
+ */
+const mergeUserEntries = (
+  username: string,
+  existingEntry: LeagueEntry,
+  incomingEntry: LeagueEntry,
+  options: MergeOptions,
+  conflicts: PredictionConflict[],
+): LeagueEntry => {
+  const byId = new Map(existingEntry.predictions.map((prediction) => [prediction.id, prediction]));
+
+  incomingEntry.predictions.forEach((prediction) => {
+    const current = byId.get(prediction.id);
+    byId.set(
+      prediction.id,
+      current
+        ? mergePredictionCopies(username, current, prediction, options, conflicts)
+        : prediction,
+    );
+  });
+
+  const predictions = Array.from(byId.values());
+  const changed =
+    predictions.length !== existingEntry.predictions.length ||
+    predictions.some(
+      (prediction, index) => !isSamePrediction(prediction, existingEntry.predictions[index]),
+    );
+
+  const incomingIsNewer =
+    getValidTimestamp(incomingEntry.updatedAt) > getValidTimestamp(existingEntry.updatedAt);
+
+  if (!changed && !incomingIsNewer) {
+    return existingEntry;
+  }
+
+  const updatedAt = incomingIsNewer ? incomingEntry.updatedAt : existingEntry.updatedAt;
+  return sanitizeUserEntry(username, { predictions, updatedAt });
+};
+
+/**
+ * Checks incoming predictions for late or unverifiable calls, recording each problem in
+ * `flagged`. In strict mode the flagged predictions are dropped and points recomputed from
+ * the rest.
+ */
+const screenIncomingEntry = (
+  username: string,
+  entry: LeagueEntry,
+  options: MergeOptions,
+  flagged: FlaggedPrediction[],
+): LeagueEntry => {
+  const mode = options.integrity ?? 'flag';
+  const rejected = mode === 'strict';
+  const kept = entry.predictions.filter((prediction) => {
+    const issue = checkPredictionIntegrity(prediction, {
+      mode,
+      ledger: options.commitmentLedger,
+    });
+
+    if (issue) {
+      flagged.push({ username, predictionId: prediction.id, issue, rejected });
+    }
+
+    return !issue || !rejected;
+  });
+
+  return kept.length === entry.predictions.length
+    ? entry
+    : sanitizeUserEntry(username, { predictions: kept, updatedAt: entry.updatedAt });
+};
+
+/**
+ * Merges incoming users into existing ones prediction by prediction, so an older copy never
+ * drops predictions made elsewhere. Field disagreements are listed in `conflicts`; see
+ * `mergePredictionCopies` for which copy wins.
+ */
 export const mergeLeagueUsers = (
   existingUsers: LeagueUsers,
   incomingUsers: Record<string, unknown> | undefined,
@@ -257,7 +902,13 @@ export const mergeLeagueUsers = (
 ): MergeSummary => {
   const excludedUsers = new Set(options.exclude ?? []);
   const mergedUsers: LeagueUsers = { ...existingUsers };
-  const summary: MergeSummary = { added: [], updated: [], mergedUsers };
+  const summary: MergeSummary = {
+    added: [],
+    updated: [],
+    mergedUsers,
+    flagged: [],
+    conflicts: [],
+  };
 
   if (!incomingUsers || typeof incomingUsers !== 'object') {
     return summary;
@@ -268,7 +919,12 @@ export const mergeLeagueUsers = (
       return;
     }
 
-    const sanitizedEntry = sanitizeUserEntry(username, entry as LeagueEntry);
+    const sanitizedEntry = screenIncomingEntry(
+      username,
+      sanitizeUserEntry(username, entry as LeagueEntry),
+      options,
+      summary.flagged,
+    );
     const existingEntry = mergedUsers[username];
 
     if (!existingEntry) {
@@ -277,8 +933,16 @@ export const mergeLeagueUsers = (
       return;
     }
 
-    if (shouldReplaceUserEntry(existingEntry, sanitizedEntry)) {
-      mergedUsers[username] = sanitizedEntry;
+    const mergedEntry = mergeUserEntries(
+      username,
+      existingEntry,
+      sanitizedEntry,
+      options,
+      summary.conflicts,
+    );
+
+    if (mergedEntry !== existingEntry) {
+      mergedUsers[username] = mergedEntry;
       summary.updated.push(username);
     }
   });
@@ -315,6 +979,7 @@ export const normalizeUsers = (storedUsers: unknown): NormalizeResult => {
 
     if (
       !originalEntry.updatedAt ||
+      typeof originalEntry.pointsS3 !== 'number' ||
       sanitizedEntry.updatedAt !== originalEntry.updatedAt ||
       sanitizedEntry.predictions.length !== originalPredictions.length
     ) {
@@ -0,0 +1,223 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseDailySeriesResponse } from './alphaVantage.js';
+import rateLimitNote from './fixtures/rateLimitNote.json';
+import aaplDaily from './fixtures/timeSeriesDaily.AAPL.json';
+import { type Prediction } from './prediction.js';
+import {
+  getPredictionWindow,
+  resolvePendingPredictions,
+  resolvePredictionsFromSeries,
+} from './predictionResolver.js';
+
+describe('prediction resolver', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T00:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: null,
+    closePrice: null,
+    status: 'pending',
+    user: 'Test',
+  };
+
+  const aaplBars = parseDailySeriesResponse(aaplDaily).bars;
+
+  it('derives day and week windows from the target date', () => {
+    expect(getPredictionWindow(basePrediction)).toEqual({
+      startDate: '2024-03-05',
+      endDate: '2024-03-05',
+    });
+    expect(
+      getPredictionWindow({ ...basePrediction, period: 'week', targetDate: '2024-03-08' }),
+    ).toEqual({ startDate: '2024-03-04', endDate: '2024-03-08' });
+    expect(getPredictionWindow({ ...basePrediction, targetDate: '03/05/2024' })).toBeNull();
+  });
+
+  it('resolves day predictions from the target session', () => {
+    const { resolved, unresolved } = resolvePredictionsFromSeries(
+      [basePrediction],
+      { aapl: aaplBars },
+      { today: '2024-04-02' },
+    );
+
+    expect(unresolved).toEqual([]);
+    expect(resolved).toEqual([
+      { ...basePrediction, openPrice: 170.76, closePrice: 170.12, status: 'resolved' },
+    ]);
+  });
+
+  it('resolves week predictions from Monday open to Friday close', () => {
+    const weekly: Prediction = { ...basePrediction, period: 'week', targetDate: '2024-03-08' };
+    const { resolved } = resolvePredictionsFromSeries(
+      [weekly],
+      { AAPL: aaplBars },
+      { today: '2024-04-02' },
+    );
+
+    expect(resolved[0].openPrice).toBe(176.15);
+    expect(resolved[0].closePrice).toBe(170.73);
+  });
+
+  it('uses the last session of a holiday-shortened week', () => {
+    const weekly: Prediction = { ...basePrediction, period: 'week', targetDate: '2024-03-29' };
+    const daily: Prediction = { ...basePrediction, id: 2, targetDate: '2024-03-29' };
+    const { resolved, unresolved } = resolvePredictionsFromSeries(
+      [weekly, daily],
+      { AAPL: aaplBars },
+      { today: '2024-04-02' },
+    );
+
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0].openPrice).toBe(170.57);
+    expect(resolved[0].closePrice).toBe(171.48);
+    expect(unresolved).toEqual([
+      expect.objectContaining({ prediction: daily, reason: 'no-trading-data' }),
+    ]);
+  });
+
+  it('reports open windows and missing data', () => {
+    const future: Prediction = { ...basePrediction, id: 2, targetDate: '2024-04-05' };
+    const stale: Prediction = { ...basePrediction, id: 3, targetDate: '2024-04-02' };
+    const { resolved, unresolved } = resolvePredictionsFromSeries(
+      [future, stale, { ...basePrediction, id: 4, status: 'resolved' }],
+      { AAPL: aaplBars },
+      { today: '2024-04-03' },
+    );
+
+    expect(resolved).toEqual([]);
+    expect(unresolved.map(({ prediction, reason }) => [prediction.id, reason])).toEqual([
+      [2, 'window-open'],
+      [3, 'awaiting-data'],
+    ]);
+  });
+
+  it('loads each symbol once and skips symbols with only open windows', async () => {
+    const loadDailySeries = vi.fn(async (symbol: string) =>
+      symbol === 'AAPL' ? aaplDaily : rateLimitNote,
+    );
+
+    const result = await resolvePendingPredictions(
+      [
+        basePrediction,
+        { ...basePrediction, id: 2, symbol: 'aapl', period: 'week', targetDate: '2024-03-08' },
+        { ...basePrediction, id: 3, symbol: 'MSFT' },
+        { ...basePrediction, id: 4, symbol: 'TSLA', targetDate: '2024-04-10' },
+      ],
+      { loadDailySeries, today: '2024-04-02' },
+    );
+
+    expect(loadDailySeries).toHaveBeenCalledTimes(2);
+    expect(loadDailySeries).toHaveBeenCalledWith('AAPL');
+    expect(loadDailySeries).toHaveBeenCalledWith('MSFT');
+    expect(result.resolved.map((prediction) => prediction.id)).toEqual([1, 2]);
+    expect(result.unresolved.map(({ prediction, reason }) => [prediction.id, reason])).toEqual([
+      [3, 'rate-limited'],
+      [4, 'window-open'],
+    ]);
+    expect(result.unresolved[0].message).toBe(rateLimitNote.Note);
+  });
+
+  it('reports loader failures per prediction', async () => {
+    const result = await resolvePendingPredictions([basePrediction], {
+      loadDailySeries: async () => {
+        throw new Error('Network unavailable');
+      },
+      today: '2024-04-02',
+    });
+
+    expect(result.resolved).toEqual([]);
+    expect(result.unresolved).toEqual([
+      { prediction: basePrediction, reason: 'request-failed', message: 'Network unavailable' },
+    ]);
+  });
+
+  it('derives month, quarter and custom horizon windows', () => {
+    expect(
+      getPredictionWindow({ ...basePrediction, period: 'month', targetDate: '2024-03-28' }),
+    ).toEqual({ startDate: '2024-03-01', endDate: '2024-03-28' });
+    expect(
+      getPredictionWindow({ ...basePrediction, period: 'quarter', targetDate: '2024-06-28' }),
+    ).toEqual({ startDate: '2024-04-01', endDate: '2024-06-28' });
+    expect(
+      getPredictionWindow({
+        ...basePrediction,
+        period: 'custom',
+        horizonDays: 3,
+        targetDate: '2024-04-01',
+      }),
+    ).toEqual({ startDate: '2024-03-27', endDate: '2024-04-01' });
+    expect(getPredictionWindow({ ...basePrediction, period: 'custom' })).toBeNull();
+  });
+
+  it('resolves custom horizons across the sessions they cover', () => {
+    const horizon: Prediction = {
+      ...basePrediction,
+      period: 'custom',
+      horizonDays: 3,
+      targetDate: '2024-04-01',
+    };
+    const { resolved } = resolvePredictionsFromSeries(
+      [horizon],
+      { AAPL: aaplBars },
+      { today: '2024-04-02' },
+    );
+
+    expect(resolved[0].openPrice).toBe(170.41);
+    expect(resolved[0].closePrice).toBe(170.03);
+  });
+
+  it('records benchmark prices over the same window', async () => {
+    const spyDaily = {
+      'Time Series (Daily)': {
+        '2024-03-04': { '1. open': '510', '2. high': '512', '3. low': '508', '4. close': '511' },
+        '2024-03-05': { '1. open': '511', '2. high': '512', '3. low': '505', '4. close': '507' },
+        '2024-03-08': { '1. open': '515', '2. high': '518', '3. low': '510', '4. close': '512' },
+      },
+    };
+    const loadDailySeries = vi.fn(async (symbol: string) =>
+      symbol === 'SPY' ? spyDaily : aaplDaily,
+    );
+    const weekly: Prediction = {
+      ...basePrediction,
+      id: 2,
+      period: 'week',
+      targetDate: '2024-03-08',
+    };
+    const stale: Prediction = { ...basePrediction, id: 3, targetDate: '2024-03-28' };
+
+    const result = await resolvePendingPredictions([basePrediction, weekly, stale], {
+      loadDailySeries,
+      today: '2024-04-02',
+      benchmarkSymbol: 'spy',
+    });
+
+    expect(loadDailySeries.mock.calls.map(([symbol]) => symbol)).toEqual(['AAPL', 'SPY']);
+    expect(result.resolved.map((prediction) => prediction.benchmark)).toEqual([
+      { symbol: 'SPY', openPrice: 511, closePrice: 507 },
+      { symbol: 'SPY', openPrice: 510, closePrice: 512 },
+    ]);
+    expect(result.unresolved).toEqual([
+      expect.objectContaining({ prediction: stale, reason: 'awaiting-data' }),
+    ]);
+  });
+
+  it('prefers the benchmark already stored on a prediction', () => {
+    const qqqBars = [{ date: '2024-03-05', open: 440, high: 441, low: 430, close: 435 }];
+    const prediction: Prediction = {
+      ...basePrediction,
+      benchmark: { symbol: 'QQQ', openPrice: null, closePrice: null },
+    };
+
+    const { resolved } = resolvePredictionsFromSeries(
+      [prediction],
+      { AAPL: aaplBars, QQQ: qqqBars },
+      { today: '2024-04-02', benchmarkSymbol: 'SPY' },
+    );
+
+    expect(resolved[0].benchmark).toEqual({ symbol: 'QQQ', openPrice: 440, closePrice: 435 });
+  });
+});
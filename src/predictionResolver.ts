@@ -0,0 +1,344 @@
+import { parseDailySeriesResponse, type DailyBar } from './alphaVantage.js';
+import { type Prediction } from './prediction.js';
+import {
+  addCalendarDays,
+  addTradingDays,
+  DEFAULT_EXCHANGE,
+  getCalendarSpan,
+  getExchangeDateTime,
+  type ExchangeId,
+} from './tradingCalendar.js';
+
+export type UnresolvedReason =
+  | 'window-open'
+  | 'awaiting-data'
+  | 'no-trading-data'
+  | 'invalid-target-date'
+  | 'rate-limited'
+  | 'request-failed';
+
+export interface PredictionWindow {
+  startDate: string;
+  endDate: string;
+}
+
+export interface UnresolvedPrediction {
+  prediction: Prediction;
+  reason: UnresolvedReason;
+  message?: string;
+}
+
+export interface ResolutionResult {
+  resolved: Prediction[];
+  unresolved: UnresolvedPrediction[];
+}
+
+export interface ResolveFromSeriesOptions {
+  /**
+   * Current exchange date as YYYY-MM-DD (defaults to today in New York); windows ending on or
+   * after it are still open.
+   */
+  today?: string;
+  /**
+   * Benchmark to record alongside each prediction for alpha scoring. A benchmark already
+   * stored on a prediction takes precedence.
+   */
+  benchmarkSymbol?: string;
+}
+
+export type DailySeriesLoader = (symbol: string) => Promise<unknown>;
+
+export interface ResolvePendingOptions extends ResolveFromSeriesOptions {
+  loadDailySeries: DailySeriesLoader;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseIsoDate = (value: string): Date | null => {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    return null;
+  }
+
+  const parsed = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/**
+ * Returns the window a prediction is scored over, ending on the target date: the target day
+ * itself for `day`; from the start of the calendar week, month or quarter for `week`, `month`
+ * and `quarter`; and the last `horizonDays` trading sessions for `custom`.
+ */
+export const getPredictionWindow = (
+  prediction: Prediction,
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+): PredictionWindow | null => {
+  if (!parseIsoDate(prediction.targetDate)) {
+    return null;
+  }
+
+  const endDate = prediction.targetDate;
+
+  switch (prediction.period) {
+    case 'week':
+    case 'month':
+    case 'quarter':
+      return { startDate: getCalendarSpan(prediction.period, endDate).startDate, endDate };
+    case 'custom':
+      if (typeof prediction.horizonDays !== 'number' || prediction.horizonDays < 1) {
+        return null;
+      }
+      return {
+        startDate: addTradingDays(exchange, endDate, -(prediction.horizonDays - 1)),
+        endDate,
+      };
+    default:
+      return { startDate: endDate, endDate };
+  }
+};
+
+type WindowMeasurement =
+  | { openPrice: number; closePrice: number }
+  | { reason: UnresolvedReason; message?: string };
+
+const measureWindow = (
+  bars: DailyBar[],
+  window: PredictionWindow,
+  today: string,
+): WindowMeasurement => {
+  if (window.endDate >= today) {
+    return { reason: 'window-open' };
+  }
+
+  const latestBar = bars[bars.length - 1];
+
+  if (!latestBar || latestBar.date < window.endDate) {
+    return { reason: 'awaiting-data' };
+  }
+
+  const windowBars = bars.filter(
+    (bar) => bar.date >= window.startDate && bar.date <= window.endDate,
+  );
+
+  if (windowBars.length === 0) {
+    return {
+      reason: 'no-trading-data',
+      message: `No trading sessions between ${window.startDate} and ${window.endDate}.`,
+    };
+  }
+
+  return {
+    openPrice: windowBars[0].open,
+    closePrice: windowBars[windowBars.length - 1].close,
+  };
+};
+
+/**
+ * Measures the open and close a prediction's window should have recorded from daily bars, or
+ * null when the bars do not yet cover the window.
+ */
+export const measurePredictionPrices = (
+  prediction: Prediction,
+  bars: DailyBar[],
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+): { openPrice: number; closePrice: number } | null => {
+  const window = getPredictionWindow(prediction, exchange);
+
+  if (!window) {
+    return null;
+  }
+
+  const ordered = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+  const measurement = measureWindow(ordered, window, addCalendarDays(window.endDate, 1));
+  return 'reason' in measurement ? null : measurement;
+};
+
+const getBenchmarkSymbol = (
+  prediction: Prediction,
+  fallbackSymbol: string | undefined,
+): string | undefined => {
+  const symbol = prediction.benchmark?.symbol ?? fallbackSymbol;
+  return symbol ? normalizeSymbol(symbol) : undefined;
+};
+
+const resolveAgainstBars = (
+  prediction: Prediction,
+  barsBySymbol: Record<string, DailyBar[]>,
+  today: string,
+  benchmarkSymbol: string | undefined,
+): Prediction | UnresolvedPrediction => {
+  const window = getPredictionWindow(prediction);
+
+  if (!window) {
+    return { prediction, reason: 'invalid-target-date' };
+  }
+
+  const measurement = measureWindow(
+    barsBySymbol[normalizeSymbol(prediction.symbol)] ?? [],
+    window,
+    today,
+  );
+
+  if ('reason' in measurement) {
+    return { prediction, ...measurement };
+  }
+
+  const resolved: Prediction = { ...prediction, ...measurement, status: 'resolved' };
+
+  if (!benchmarkSymbol) {
+    return resolved;
+  }
+
+  const benchmark = measureWindow(barsBySymbol[benchmarkSymbol] ?? [], window, today);
+
+  if ('reason' in benchmark) {
+    return {
+      prediction,
+      reason: benchmark.reason,
+      message: benchmark.message ?? `Benchmark ${benchmarkSymbol} has no data for this window.`,
+    };
+  }
+
+  return { ...resolved, benchmark: { symbol: benchmarkSymbol, ...benchmark } };
+};
+
+const isUnresolved = (value: Prediction | UnresolvedPrediction): value is UnresolvedPrediction =>
+  'reason' in value;
+
+/**
+ * Fills in open/close prices for pending predictions using already-parsed daily bars keyed
+ * by symbol. Predictions that are already resolved are ignored. With a benchmark, a
+ * prediction only resolves once the benchmark's window can be measured too.
+ */
+export const resolvePredictionsFromSeries = (
+  predictions: Prediction[],
+  barsBySymbol: Record<string, DailyBar[]>,
+  options: ResolveFromSeriesOptions = {},
+): ResolutionResult => {
+  const today = options.today ?? getExchangeDateTime(DEFAULT_EXCHANGE).date;
+  const result: ResolutionResult = { resolved: [], unresolved: [] };
+  const normalizedBars: Record<string, DailyBar[]> = {};
+
+  Object.entries(barsBySymbol).forEach(([symbol, bars]) => {
+    normalizedBars[normalizeSymbol(symbol)] = bars;
+  });
+
+  predictions
+    .filter((prediction) => prediction.status === 'pending')
+    .forEach((prediction) => {
+      const outcome = resolveAgainstBars(
+        prediction,
+        normalizedBars,
+        today,
+        getBenchmarkSymbol(prediction, options.benchmarkSymbol),
+      );
+
+      if (isUnresolved(outcome)) {
+        result.unresolved.push(outcome);
+      } else {
+        result.resolved.push(outcome);
+      }
+    });
+
+  return result;
+};
+
+interface LoadFailure {
+  reason: UnresolvedReason;
+  message?: string;
+}
+
+const loadBars = async (
+  symbol: string,
+  loadDailySeries: DailySeriesLoader,
+): Promise<DailyBar[] | LoadFailure> => {
+  let payload: unknown;
+
+  try {
+    payload = await loadDailySeries(symbol);
+  } catch (error) {
+    return {
+      reason: 'request-failed',
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const parsed = parseDailySeriesResponse(payload);
+
+  if (parsed.message) {
+    return {
+      reason: parsed.isRateLimited ? 'rate-limited' : 'request-failed',
+      message: parsed.message,
+    };
+  }
+
+  return parsed.bars;
+};
+
+/**
+ * Resolves pending predictions by loading one TIME_SERIES_DAILY payload per symbol, plus one
+ * per benchmark. Symbols are requested one after another, and only for predictions whose
+ * window has already closed.
+ */
+export const resolvePendingPredictions = async (
+  predictions: Prediction[],
+  options: ResolvePendingOptions,
+): Promise<ResolutionResult> => {
+  const today = options.today ?? getExchangeDateTime(DEFAULT_EXCHANGE).date;
+  const pending = predictions.filter((prediction) => prediction.status === 'pending');
+  const symbolsToLoad = new Set<string>();
+
+  pending.forEach((prediction) => {
+    const window = getPredictionWindow(prediction);
+
+    if (window && window.endDate < today) {
+      symbolsToLoad.add(normalizeSymbol(prediction.symbol));
+      const benchmarkSymbol = getBenchmarkSymbol(prediction, options.benchmarkSymbol);
+
+      if (benchmarkSymbol) {
+        symbolsToLoad.add(benchmarkSymbol);
+      }
+    }
+  });
+
+  const barsBySymbol: Record<string, DailyBar[]> = {};
+  const failures = new Map<string, LoadFailure>();
+
+  await Array.from(symbolsToLoad).reduce(async (previous, symbol) => {
+    await previous;
+    const loaded = await loadBars(symbol, options.loadDailySeries);
+
+    if (Array.isArray(loaded)) {
+      barsBySymbol[symbol] = loaded;
+    } else {
+      failures.set(symbol, loaded);
+    }
+  }, Promise.resolve());
+
+  const result: ResolutionResult = { resolved: [], unresolved: [] };
+  const resolvable: Prediction[] = [];
+
+  pending.forEach((prediction) => {
+    const benchmarkSymbol = getBenchmarkSymbol(prediction, options.benchmarkSymbol);
+    const failure =
+      failures.get(normalizeSymbol(prediction.symbol)) ??
+      (benchmarkSymbol ? failures.get(benchmarkSymbol) : undefined);
+
+    if (failure) {
+      result.unresolved.push({ prediction, ...failure });
+    } else {
+      resolvable.push(prediction);
+    }
+  });
+
+  const seriesResult = resolvePredictionsFromSeries(resolvable, barsBySymbol, {
+    today,
+    benchmarkSymbol: options.benchmarkSymbol,
+  });
+
+  return {
+    resolved: seriesResult.resolved,
+    unresolved: [...result.unresolved, ...seriesResult.unresolved],
+  };
+};
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+
+import { EXPORT_FORMAT } from './leagueExport.js';
+import { sanitizeUserEntry, type Prediction } from './prediction.js';
+import {
+  EMPTY_PROFILE_BOOK,
+  createProfile,
+  createProfilesFromUsernames,
+  deleteProfile,
+  getActiveProfile,
+  getProfileEntry,
+  renameProfile,
+  sanitizeProfileBook,
+  switchProfile,
+  updateProfile,
+  type ProfileData,
+} from './profiles.js';
+
+const basePrediction: Prediction = {
+  id: 1,
+  symbol: 'AAPL',
+  prediction: 'up',
+  period: 'day',
+  madeAt: '2024-01-01T00:00:00.000Z',
+  targetDate: '2024-01-02',
+  openPrice: 100,
+  closePrice: 110,
+  status: 'resolved',
+  user: 'Alice',
+};
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => {
+    next += 1;
+    return `profile-${next}`;
+  };
+};
+
+const createData = (): ProfileData => {
+  const options = { generateId: sequentialIds(), now: new Date('2024-02-01T00:00:00.000Z') };
+  const alice = createProfile({ book: EMPTY_PROFILE_BOOK }, { displayName: 'Alice' }, options);
+  const bob = createProfile({ book: alice.book }, { displayName: 'Bob' }, options);
+  const predictions = [
+    basePrediction,
+    { ...basePrediction, id: 2, user: 'Bob', prediction: 'down' as const },
+    { ...basePrediction, id: 3 },
+  ];
+
+  return {
+    book: bob.book,
+    predictions,
+    users: { Alice: sanitizeUserEntry('Alice', { predictions: [basePrediction] }) },
+  };
+};
+
+describe('createProfile', () => {
+  it('creates profiles with defaults and activates the first one', () => {
+    const { book, profile } = createProfile(
+      { book: EMPTY_PROFILE_BOOK },
+      { displayName: '  Alice ', apiKey: ' ab c ' },
+      { generateId: () => 'id-1', now: new Date('2024-02-01T00:00:00.000Z') },
+    );
+
+    expect(profile).toEqual({
+      id: 'id-1',
+      displayName: 'Alice',
+      color: '#4f46e5',
+      avatar: null,
+      createdAt: '2024-02-01T00:00:00.000Z',
+      apiKey: 'abc',
+      theme: 'default',
+    });
+    expect(book.activeProfileId).toBe('id-1');
+    expect(getActiveProfile(book)).toBe(profile);
+  });
+
+  it('rejects invalid, duplicate and already-used names', () => {
+    const data = createData();
+
+    expect(() => createProfile(data, { displayName: '   ' })).toThrow(RangeError);
+    expect(() => createProfile(data, { displayName: 'alice' })).toThrow(/already called/);
+    expect(() => createProfile(data, { displayName: 'Carol', color: 'red' })).toThrow(RangeError);
+    expect(() =>
+      createProfile(
+        { ...data, predictions: [...data.predictions, { ...basePrediction, user: 'Carol' }] },
+        { displayName: 'Carol' },
+      ),
+    ).toThrow(/history/);
+  });
+});
+
+describe('profile settings', () => {
+  it('switches profiles and keeps api keys and themes per profile', () => {
+    const { book } = createData();
+    const switched = switchProfile(book, 'profile-2');
+    const updated = updateProfile(switched, 'profile-2', { apiKey: 'BOBKEY', theme: 'neon' });
+
+    expect(getActiveProfile(updated)).toMatchObject({
+      displayName: 'Bob',
+      apiKey: 'BOBKEY',
+      theme: 'neon',
+    });
+    expect(updated.profiles[0]).toMatchObject({ apiKey: '', theme: 'default' });
+    expect(() => switchProfile(book, 'missing')).toThrow(RangeError);
+    expect(() => updateProfile(book, 'profile-1', { avatar: 'far too long' })).toThrow(RangeError);
+  });
+});
+
+describe('renameProfile', () => {
+  it('moves owned predictions and the league entry to the new name', () => {
+    const data = createData();
+    const renamed = renameProfile(data, 'profile-1', 'Alicia');
+
+    expect(renamed.book.profiles[0]).toMatchObject({ id: 'profile-1', displayName: 'Alicia' });
+    expect(renamed.predictions.map((prediction) => prediction.user)).toEqual([
+      'Alicia',
+      'Bob',
+      'Alicia',
+    ]);
+    expect(Object.keys(renamed.users)).toEqual(['Alicia']);
+    expect(renamed.users.Alicia.predictions[0].user).toBe('Alicia');
+    expect(getProfileEntry(renamed.predictions, renamed.book.profiles[0]).pointsS1).toBe(2);
+    expect(data.predictions[0].user).toBe('Alice');
+  });
+
+  it('refuses to merge into another player', () => {
+    const data = createData();
+
+    expect(() => renameProfile(data, 'profile-1', 'BOB')).toThrow(RangeError);
+    expect(renameProfile(data, 'profile-1', ' Alice ')).toBe(data);
+  });
+});
+
+describe('deleteProfile', () => {
+  it('exports then removes the profile and its history', () => {
+    const data = createData();
+    const { data: remaining, exported } = deleteProfile(data, 'profile-1', {
+      appVersion: '1.2.3',
+      now: new Date('2024-03-01T00:00:00.000Z'),
+    });
+
+    expect(exported.format).toBe(EXPORT_FORMAT);
+    expect(exported.users.Alice.predictions.map((prediction) => prediction.id)).toEqual([1, 3]);
+    expect(remaining.book).toEqual({
+      profiles: [expect.objectContaining({ id: 'profile-2' })],
+      activeProfileId: 'profile-2',
+    });
+    expect(remaining.predictions.map((prediction) => prediction.user)).toEqual(['Bob']);
+    expect(remaining.users).toEqual({});
+  });
+});
+
+describe('sanitizeProfileBook', () => {
+  it('drops invalid and duplicate profiles and repairs the active id', () => {
+    const { book } = createData();
+    const sanitized = sanitizeProfileBook({
+      profiles: [
+        ...book.profiles,
+        { ...book.profiles[0], id: 'copy', displayName: 'ALICE' },
+        { id: 'x', displayName: '' },
+        null,
+      ],
+      activeProfileId: 'gone',
+    });
+
+    expect(sanitized.profiles.map((profile) => profile.id)).toEqual(['profile-1', 'profile-2']);
+    expect(sanitized.activeProfileId).toBe('profile-1');
+    expect(sanitizeProfileBook('nope')).toEqual(EMPTY_PROFILE_BOOK);
+  });
+});
+
+describe('createProfilesFromUsernames', () => {
+  it('creates one profile per name with the current user active', () => {
+    const book = createProfilesFromUsernames(['Alice', 'Bob', 'Alice'], 'Bob', 'KEY', {
+      generateId: sequentialIds(),
+    });
+
+    expect(book.profiles.map((profile) => [profile.displayName, profile.apiKey])).toEqual([
+      ['Bob', 'KEY'],
+      ['Alice', ''],
+    ]);
+    expect(book.activeProfileId).toBe('profile-1');
+  });
+});
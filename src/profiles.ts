@@ -0,0 +1,371 @@
+import { createLeagueExport, type LeagueExportEnvelope } from './leagueExport.js';
+import {
+  sanitizeUserEntry,
+  type LeagueEntry,
+  type LeagueUsers,
+  type Prediction,
+} from './prediction.js';
+
+export type ProfileTheme = 'default' | 'dark' | 'neon';
+
+export interface Profile {
+  /** Stable across renames; predictions are still owned through `Prediction.user`. */
+  id: string;
+  displayName: string;
+  color: string;
+  avatar: string | null;
+  createdAt: string;
+  apiKey: string;
+  theme: ProfileTheme;
+}
+
+export interface ProfileBook {
+  profiles: Profile[];
+  activeProfileId: string | null;
+}
+
+/** Everything on the device that is keyed by a profile's display name. */
+export interface ProfileData {
+  book: ProfileBook;
+  predictions: Prediction[];
+  users: LeagueUsers;
+}
+
+export interface CreateProfileInput {
+  displayName: string;
+  color?: string;
+  avatar?: string | null;
+  apiKey?: string;
+  theme?: ProfileTheme;
+}
+
+export type ProfileChanges = Partial<Pick<Profile, 'color' | 'avatar' | 'apiKey' | 'theme'>>;
+
+export interface ProfileOptions {
+  now?: Date;
+  generateId?: () => string;
+}
+
+export interface DeletedProfile {
+  data: ProfileData;
+  /** The profile's predictions as a league export, so they can be re-imported later. */
+  exported: LeagueExportEnvelope;
+}
+
+export const MAX_DISPLAY_NAME_LENGTH = 64;
+export const MAX_AVATAR_LENGTH = 8;
+export const PROFILE_THEMES: readonly ProfileTheme[] = ['default', 'dark', 'neon'];
+export const PROFILE_COLORS: readonly string[] = [
+  '#4f46e5',
+  '#0891b2',
+  '#db2777',
+  '#16a34a',
+  '#ea580c',
+  '#7c3aed',
+];
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const EMPTY_PROFILE_BOOK: ProfileBook = { profiles: [], activeProfileId: null };
+
+const generateProfileId = (): string => globalThis.crypto.randomUUID();
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const cleanApiKey = (apiKey: string): string => apiKey.replace(/\s+/g, '');
+
+const toDisplayName = (value: string): string => {
+  const displayName = value.trim();
+
+  if (!displayName || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+    throw new RangeError(`Profile names must be 1 to ${MAX_DISPLAY_NAME_LENGTH} characters.`);
+  }
+
+  return displayName;
+};
+
+const toColor = (value: string): string => {
+  if (!COLOR_PATTERN.test(value)) {
+    throw new RangeError(`Profile colour "${value}" is not a #rrggbb hex colour.`);
+  }
+
+  return value.toLowerCase();
+};
+
+const toAvatar = (value: string | null): string | null => {
+  const avatar = value?.trim() ?? '';
+
+  if (avatar.length > MAX_AVATAR_LENGTH) {
+    throw new RangeError(`Profile avatars must be at most ${MAX_AVATAR_LENGTH} characters.`);
+  }
+
+  return avatar || null;
+};
+
+const toTheme = (value: string): ProfileTheme => {
+  if (!PROFILE_THEMES.includes(value as ProfileTheme)) {
+    throw new RangeError(`Unknown theme "${value}".`);
+  }
+
+  return value as ProfileTheme;
+};
+
+const findProfile = (book: ProfileBook, profileId: string): Profile => {
+  const profile = book.profiles.find((candidate) => candidate.id === profileId);
+
+  if (!profile) {
+    throw new RangeError(`Unknown profile "${profileId}".`);
+  }
+
+  return profile;
+};
+
+/**
+ * A name is taken when another profile uses it (ignoring case) or when predictions or a league
+ * entry already carry it without belonging to a profile, since taking it would adopt them.
+ */
+const assertNameAvailable = (
+  data: Pick<ProfileData, 'book'> & Partial<ProfileData>,
+  displayName: string,
+  exceptId?: string,
+): void => {
+  const owner = data.book.profiles.find((profile) => sameName(profile.displayName, displayName));
+
+  if (owner && owner.id !== exceptId) {
+    throw new RangeError(`Another profile is already called "${owner.displayName}".`);
+  }
+
+  const isOwned = (username: string) =>
+    data.book.profiles.some((profile) => profile.displayName === username);
+  const hasOrphanedHistory =
+    !isOwned(displayName) &&
+    ((data.predictions ?? []).some((prediction) => prediction.user === displayName) ||
+      Boolean(data.users?.[displayName]));
+
+  if (hasOrphanedHistory) {
+    throw new RangeError(`"${displayName}" already has history on this device.`);
+  }
+};
+
+export const getActiveProfile = (book: ProfileBook): Profile | null =>
+  book.profiles.find((profile) => profile.id === book.activeProfileId) ?? null;
+
+/** Adds a profile; the first profile on a device becomes the active one. */
+export const createProfile = (
+  data: Pick<ProfileData, 'book'> & Partial<ProfileData>,
+  input: CreateProfileInput,
+  options: ProfileOptions = {},
+): { book: ProfileBook; profile: Profile } => {
+  const displayName = toDisplayName(input.displayName);
+  assertNameAvailable(data, displayName);
+
+  const { book } = data;
+  const profile: Profile = {
+    id: (options.generateId ?? generateProfileId)(),
+    displayName,
+    color: toColor(input.color ?? PROFILE_COLORS[book.profiles.length % PROFILE_COLORS.length]),
+    avatar: toAvatar(input.avatar ?? null),
+    createdAt: (options.now ?? new Date()).toISOString(),
+    apiKey: cleanApiKey(input.apiKey ?? ''),
+    theme: toTheme(input.theme ?? 'default'),
+  };
+
+  return {
+    book: {
+      profiles: [...book.profiles, profile],
+      activeProfileId: book.activeProfileId ?? profile.id,
+    },
+    profile,
+  };
+};
+
+export const updateProfile = (
+  book: ProfileBook,
+  profileId: string,
+  changes: ProfileChanges,
+): ProfileBook => {
+  const profile = findProfile(book, profileId);
+  const updated: Profile = {
+    ...profile,
+    color: changes.color === undefined ? profile.color : toColor(changes.color),
+    avatar: changes.avatar === undefined ? profile.avatar : toAvatar(changes.avatar),
+    apiKey: changes.apiKey === undefined ? profile.apiKey : cleanApiKey(changes.apiKey),
+    theme: changes.theme === undefined ? profile.theme : toTheme(changes.theme),
+  };
+
+  return {
+    ...book,
+    profiles: book.profiles.map((candidate) => (candidate.id === profileId ? updated : candidate)),
+  };
+};
+
+export const switchProfile = (book: ProfileBook, profileId: string): ProfileBook => ({
+  ...book,
+  activeProfileId: findProfile(book, profileId).id,
+});
+
+export const getProfilePredictions = (predictions: Prediction[], profile: Profile): Prediction[] =>
+  predictions.filter((prediction) => prediction.user === profile.displayName);
+
+/** The profile's predictions as a league entry, with points recomputed. */
+export const getProfileEntry = (predictions: Prediction[], profile: Profile): LeagueEntry =>
+  sanitizeUserEntry(profile.displayName, {
+    predictions: getProfilePredictions(predictions, profile),
+  });
+
+/**
+ * Renames a profile and rewrites everything it owns: its predictions move to the new name and
+ * its league entry is re-keyed, so history is never orphaned or mixed with another player's.
+ */
+export const renameProfile = (
+  data: ProfileData,
+  profileId: string,
+  displayName: string,
+): ProfileData => {
+  const profile = findProfile(data.book, profileId);
+  const nextName = toDisplayName(displayName);
+
+  if (nextName === profile.displayName) {
+    return data;
+  }
+
+  assertNameAvailable(data, nextName, profileId);
+
+  const previousName = profile.displayName;
+  const users = { ...data.users };
+
+  if (users[previousName]) {
+    users[nextName] = sanitizeUserEntry(nextName, users[previousName]);
+    delete users[previousName];
+  }
+
+  return {
+    book: {
+      ...data.book,
+      profiles: data.book.profiles.map((candidate) =>
+        candidate.id === profileId ? { ...candidate, displayName: nextName } : candidate,
+      ),
+    },
+    predictions: data.predictions.map((prediction) =>
+      prediction.user === previousName ? { ...prediction, user: nextName } : prediction,
+    ),
+    users,
+  };
+};
+
+/**
+ * Removes a profile with its predictions and league entry, returning them as an export first.
+ * If the deleted profile was active, the next remaining profile becomes active.
+ */
+export const deleteProfile = (
+  data: ProfileData,
+  profileId: string,
+  options: { appVersion: string; now?: Date },
+): DeletedProfile => {
+  const profile = findProfile(data.book, profileId);
+  const exported = createLeagueExport({
+    users: { [profile.displayName]: getProfileEntry(data.predictions, profile) },
+    appVersion: options.appVersion,
+    now: options.now,
+  });
+  const profiles = data.book.profiles.filter((candidate) => candidate.id !== profileId);
+  const users = { ...data.users };
+  delete users[profile.displayName];
+
+  return {
+    data: {
+      book: {
+        profiles,
+        activeProfileId:
+          data.book.activeProfileId === profileId
+            ? (profiles[0]?.id ?? null)
+            : data.book.activeProfileId,
+      },
+      predictions: data.predictions.filter((prediction) => prediction.user !== profile.displayName),
+      users,
+    },
+    exported,
+  };
+};
+
+const sanitizeProfile = (value: unknown): Profile | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const candidate = value as Partial<Profile>;
+
+  if (
+    typeof candidate.id !== 'string' ||
+    !candidate.id ||
+    typeof candidate.displayName !== 'string' ||
+    typeof candidate.createdAt !== 'string'
+  ) {
+    return null;
+  }
+
+  try {
+    return {
+      id: candidate.id,
+      displayName: toDisplayName(candidate.displayName),
+      color: toColor(typeof candidate.color === 'string' ? candidate.color : PROFILE_COLORS[0]),
+      avatar: toAvatar(typeof candidate.avatar === 'string' ? candidate.avatar : null),
+      createdAt: candidate.createdAt,
+      apiKey: typeof candidate.apiKey === 'string' ? cleanApiKey(candidate.apiKey) : '',
+      theme: toTheme(typeof candidate.theme === 'string' ? candidate.theme : 'default'),
+    };
+  } catch {
+    return null;
+  }
+};
+
+/** Drops invalid profiles and duplicate ids or names, and repairs a dangling active id. */
+export const sanitizeProfileBook = (value: unknown): ProfileBook => {
+  if (!value || typeof value !== 'object') {
+    return EMPTY_PROFILE_BOOK;
+  }
+
+  const { profiles, activeProfileId } = value as Partial<ProfileBook>;
+  const kept = (Array.isArray(profiles) ? profiles : []).reduce<Profile[]>((list, entry) => {
+    const profile = sanitizeProfile(entry);
+    const isDuplicate = list.some(
+      (existing) =>
+        profile &&
+        (existing.id === profile.id || sameName(existing.displayName, profile.displayName)),
+    );
+    return profile && !isDuplicate ? [...list, profile] : list;
+  }, []);
+
+  return {
+    profiles: kept,
+    activeProfileId: kept.some((profile) => profile.id === activeProfileId)
+      ? (activeProfileId as string)
+      : (kept[0]?.id ?? null),
+  };
+};
+
+/**
+ * Builds profiles for the usernames found in pre-profile data. The current user becomes the
+ * active profile and inherits the device-wide API key.
+ */
+export const createProfilesFromUsernames = (
+  usernames: string[],
+  currentUser: string,
+  apiKey: string,
+  options: ProfileOptions = {},
+): ProfileBook => {
+  const ordered = [currentUser, ...usernames];
+
+  return ordered.reduce<ProfileBook>((book, username) => {
+    try {
+      const isCurrent = username === currentUser;
+      return createProfile(
+        { book },
+        { displayName: username, apiKey: isCurrent ? apiKey : '' },
+        options,
+      ).book;
+    } catch {
+      return book;
+    }
+  }, EMPTY_PROFILE_BOOK);
+};
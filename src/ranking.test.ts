@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+
+import { sanitizeUserEntry, type LeagueUsers, type Prediction } from './prediction.js';
+import {
+  createRankSnapshot,
+  findBaselineSnapshot,
+  getRankMovements,
+  rankLeagueUsers,
+  recordRankSnapshot,
+} from './ranking.js';
+
+describe('leaderboard ranking', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T15:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Test',
+  };
+
+  const buildUsers = (records: Record<string, Partial<Prediction>[]>): LeagueUsers => {
+    const users: LeagueUsers = {};
+    Object.entries(records).forEach(([username, overrides]) => {
+      users[username] = sanitizeUserEntry(username, {
+        predictions: overrides.map((override, index) => ({
+          ...basePrediction,
+          id: index + 1,
+          ...override,
+        })),
+        updatedAt: '2024-03-06T00:00:00.000Z',
+      });
+    });
+    return users;
+  };
+
+  const users = buildUsers({
+    // S1 2, S2 20, 100% hit rate.
+    Alpha: [{}, {}],
+    // S1 2, S2 70, 75% hit rate.
+    Bravo: [{ closePrice: 150 }, { closePrice: 120 }, {}, { closePrice: 110, prediction: 'down' }],
+    // S1 2, S2 20, 100% hit rate: level with Alpha on everything but the name.
+    Charlie: [{}, {}],
+    // Only pending predictions.
+    Delta: [{ status: 'pending', closePrice: null }],
+  });
+
+  it('ranks by S1 with deterministic tie-breaks', () => {
+    const { ranked, ineligible } = rankLeagueUsers(users);
+
+    expect(ranked.map(({ username, rank }) => [username, rank])).toEqual([
+      ['Bravo', 1],
+      ['Alpha', 2],
+      ['Charlie', 3],
+      ['Delta', 4],
+    ]);
+    expect(ineligible).toEqual([]);
+  });
+
+  it('ranks by S2 and hit rate and applies eligibility thresholds', () => {
+    const bySecondSystem = rankLeagueUsers(users, { metric: 'S2', minPredictions: 1 });
+    expect(bySecondSystem.ranked.map((player) => player.username)).toEqual([
+      'Bravo',
+      'Alpha',
+      'Charlie',
+    ]);
+    expect(bySecondSystem.ineligible.map((player) => [player.username, player.rank])).toEqual([
+      ['Delta', null],
+    ]);
+
+    const byHitRate = rankLeagueUsers(users, { metric: 'hitRate', minPredictions: 3 });
+    expect(byHitRate.ranked.map((player) => player.username)).toEqual(['Bravo']);
+    expect(byHitRate.ranked[0].score).toBeCloseTo(0.75);
+  });
+
+  it('blends normalized metrics into a composite score', () => {
+    const { ranked } = rankLeagueUsers(users, { metric: 'composite', minPredictions: 1 });
+    // Bravo leads S2 but trails on hit rate; S1 is level so it counts fully for everyone.
+    // The tie then falls to S2.
+    expect(ranked.map(({ username, score }) => [username, score])).toEqual([
+      ['Bravo', 2 / 3],
+      ['Alpha', 2 / 3],
+      ['Charlie', 2 / 3],
+    ]);
+
+    const weighted = rankLeagueUsers(users, {
+      metric: 'composite',
+      minPredictions: 1,
+      compositeWeights: { pointsS1: 0, pointsS2: 0, hitRate: 1 },
+    });
+    expect(weighted.ranked.map((player) => player.username)).toEqual(['Alpha', 'Charlie', 'Bravo']);
+  });
+
+  it('tracks rank movement against snapshots', () => {
+    const lastWeek = { date: '2024-02-28', metric: 'S1' as const, ranks: { Alpha: 1, Bravo: 3 } };
+    const yesterday = { date: '2024-03-05', metric: 'S1' as const, ranks: { Bravo: 1 } };
+    let history = recordRankSnapshot([], yesterday);
+    history = recordRankSnapshot(history, lastWeek);
+    history = recordRankSnapshot(history, { ...yesterday, ranks: { Bravo: 2, Charlie: 3 } });
+
+    expect(history.map((snapshot) => snapshot.date)).toEqual(['2024-02-28', '2024-03-05']);
+    expect(recordRankSnapshot(history, { ...lastWeek, date: '2024-03-06' }, 2)).toHaveLength(2);
+    expect(findBaselineSnapshot(history, 'S1', '2024-03-06', 1)?.date).toBe('2024-03-05');
+    expect(findBaselineSnapshot(history, 'S1', '2024-03-06', 7)?.date).toBe('2024-02-28');
+    expect(findBaselineSnapshot(history, 'S2', '2024-03-06', 1)).toBeNull();
+
+    const ranking = rankLeagueUsers(users);
+    const sinceLastWeek = getRankMovements(
+      ranking,
+      findBaselineSnapshot(history, 'S1', '2024-03-06', 7),
+    );
+
+    expect(
+      sinceLastWeek.map(({ username, change, direction }) => [username, change, direction]),
+    ).toEqual([
+      ['Bravo', 2, 'up'],
+      ['Alpha', -1, 'down'],
+      ['Charlie', null, 'new'],
+      ['Delta', null, 'new'],
+    ]);
+    expect(createRankSnapshot(ranking, '2024-03-06')).toEqual({
+      date: '2024-03-06',
+      metric: 'S1',
+      ranks: { Bravo: 1, Alpha: 2, Charlie: 3, Delta: 4 },
+    });
+  });
+});
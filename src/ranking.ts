@@ -0,0 +1,234 @@
+import { summarizePerformance } from './playerStats.js';
+import { type LeagueUsers } from './prediction.js';
+import { addCalendarDays } from './tradingCalendar.js';
+
+export type RankingMetric = 'S1' | 'S2' | 'hitRate' | 'composite';
+
+export interface CompositeWeights {
+  pointsS1: number;
+  pointsS2: number;
+  hitRate: number;
+}
+
+export interface RankingOptions {
+  metric?: RankingMetric;
+  /** Resolved predictions a player needs before they are ranked. */
+  minPredictions?: number;
+  compositeWeights?: CompositeWeights;
+}
+
+export interface RankedPlayer {
+  username: string;
+  /** 1-based position; null for players below the eligibility threshold. */
+  rank: number | null;
+  score: number;
+  pointsS1: number;
+  pointsS2: number;
+  hitRate: number | null;
+  resolvedCount: number;
+  predictionCount: number;
+}
+
+export interface Ranking {
+  metric: RankingMetric;
+  ranked: RankedPlayer[];
+  ineligible: RankedPlayer[];
+}
+
+export interface RankSnapshot {
+  /** Exchange date (YYYY-MM-DD) the snapshot describes. */
+  date: string;
+  metric: RankingMetric;
+  ranks: Record<string, number>;
+}
+
+export type RankDirection = 'up' | 'down' | 'same' | 'new';
+
+export interface RankMovement {
+  username: string;
+  rank: number;
+  previousRank: number | null;
+  /** Places gained since the snapshot; negative when the player dropped. */
+  change: number | null;
+  direction: RankDirection;
+}
+
+export const DEFAULT_COMPOSITE_WEIGHTS: CompositeWeights = {
+  pointsS1: 1,
+  pointsS2: 1,
+  hitRate: 1,
+};
+
+export const DEFAULT_SNAPSHOT_LIMIT = 60;
+
+type CompositeComponent = keyof CompositeWeights;
+
+const COMPOSITE_COMPONENTS: CompositeComponent[] = ['pointsS1', 'pointsS2', 'hitRate'];
+
+const METRIC_VALUES: Record<
+  Exclude<RankingMetric, 'composite'>,
+  (player: RankedPlayer) => number
+> = {
+  S1: (player) => player.pointsS1,
+  S2: (player) => player.pointsS2,
+  hitRate: (player) => player.hitRate ?? 0,
+};
+
+const describePlayer = (username: string, users: LeagueUsers): RankedPlayer => {
+  const entry = users[username];
+  const summary = summarizePerformance(entry.predictions);
+
+  return {
+    username,
+    rank: null,
+    score: 0,
+    pointsS1: entry.pointsS1,
+    pointsS2: entry.pointsS2,
+    hitRate: summary.hitRate,
+    resolvedCount: summary.count,
+    predictionCount: entry.predictions.length,
+  };
+};
+
+/**
+ * Min-max scales each component across the ranked field so points and rates share a 0..1
+ * range; a component on which everyone is level contributes fully to every player.
+ */
+const scoreComposite = (players: RankedPlayer[], weights: CompositeWeights): number[] => {
+  const totalWeight = COMPOSITE_COMPONENTS.reduce((sum, key) => sum + weights[key], 0);
+
+  if (totalWeight <= 0) {
+    return players.map(() => 0);
+  }
+
+  const scaled = COMPOSITE_COMPONENTS.map((key) => {
+    const values = players.map((player) => player[key] ?? 0);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return values.map((value) => (max === min ? 1 : (value - min) / (max - min)));
+  });
+
+  return players.map(
+    (_, index) =>
+      COMPOSITE_COMPONENTS.reduce(
+        (sum, key, componentIndex) => sum + weights[key] * scaled[componentIndex][index],
+        0,
+      ) / totalWeight,
+  );
+};
+
+const scorePlayers = (
+  players: RankedPlayer[],
+  metric: RankingMetric,
+  weights: CompositeWeights,
+): RankedPlayer[] => {
+  if (metric === 'composite') {
+    const scores = scoreComposite(players, weights);
+    return players.map((player, index) => ({ ...player, score: scores[index] }));
+  }
+
+  return players.map((player) => ({ ...player, score: METRIC_VALUES[metric](player) }));
+};
+
+/**
+ * Orders by score, then S1, S2, hit rate and resolved volume, and finally by username so
+ * the same data always yields the same order.
+ */
+const comparePlayers = (a: RankedPlayer, b: RankedPlayer): number =>
+  b.score - a.score ||
+  b.pointsS1 - a.pointsS1 ||
+  b.pointsS2 - a.pointsS2 ||
+  (b.hitRate ?? 0) - (a.hitRate ?? 0) ||
+  b.resolvedCount - a.resolvedCount ||
+  a.username.localeCompare(b.username);
+
+export const rankLeagueUsers = (users: LeagueUsers, options: RankingOptions = {}): Ranking => {
+  const metric = options.metric ?? 'S1';
+  const minPredictions = options.minPredictions ?? 0;
+  const weights = options.compositeWeights ?? DEFAULT_COMPOSITE_WEIGHTS;
+  const players = Object.keys(users).map((username) => describePlayer(username, users));
+  const eligible = players.filter((player) => player.resolvedCount >= minPredictions);
+  const ineligible = players
+    .filter((player) => player.resolvedCount < minPredictions)
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+  return {
+    metric,
+    ranked: scorePlayers(eligible, metric, weights)
+      .sort(comparePlayers)
+      .map((player, index) => ({ ...player, rank: index + 1 })),
+    ineligible,
+  };
+};
+
+export const createRankSnapshot = (ranking: Ranking, date: string): RankSnapshot => {
+  const ranks: Record<string, number> = {};
+
+  ranking.ranked.forEach((player) => {
+    if (player.rank !== null) {
+      ranks[player.username] = player.rank;
+    }
+  });
+
+  return { date, metric: ranking.metric, ranks };
+};
+
+/**
+ * Adds a snapshot to a date-ordered history, replacing any earlier snapshot for the same date
+ * and metric and keeping at most `limit` snapshots.
+ */
+export const recordRankSnapshot = (
+  history: RankSnapshot[],
+  snapshot: RankSnapshot,
+  limit = DEFAULT_SNAPSHOT_LIMIT,
+): RankSnapshot[] =>
+  [
+    ...history.filter(
+      (existing) => existing.date !== snapshot.date || existing.metric !== snapshot.metric,
+    ),
+    snapshot,
+  ]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-limit);
+
+/**
+ * Finds the latest snapshot for the metric taken at least `daysAgo` calendar days before
+ * `asOf`, e.g. 1 for "since yesterday" or 7 for "since last week".
+ */
+export const findBaselineSnapshot = (
+  history: RankSnapshot[],
+  metric: RankingMetric,
+  asOf: string,
+  daysAgo: number,
+): RankSnapshot | null => {
+  const cutoff = addCalendarDays(asOf, -daysAgo);
+
+  return history.reduce<RankSnapshot | null>(
+    (best, snapshot) =>
+      snapshot.metric === metric && snapshot.date <= cutoff && (!best || snapshot.date > best.date)
+        ? snapshot
+        : best,
+    null,
+  );
+};
+
+export const getRankMovements = (ranking: Ranking, baseline: RankSnapshot | null): RankMovement[] =>
+  ranking.ranked.map((player) => {
+    const rank = player.rank as number;
+    const previousRank = baseline?.ranks[player.username] ?? null;
+
+    if (previousRank === null) {
+      return { username: player.username, rank, previousRank, change: null, direction: 'new' };
+    }
+
+    const change = previousRank - rank;
+    let direction: RankDirection = 'same';
+
+    if (change > 0) {
+      direction = 'up';
+    } else if (change < 0) {
+      direction = 'down';
+    }
+
+    return { username: player.username, rank, previousRank, change, direction };
+  });
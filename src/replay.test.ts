@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseDailySeriesResponse } from './alphaVantage.js';
+import timeSeriesDailyFixture from './fixtures/timeSeriesDaily.AAPL.json';
+import {
+  advanceReplay,
+  createReplaySession,
+  getVisibleBars,
+  makeReplayPrediction,
+  scoreReplay,
+} from './replay.js';
+
+const { bars } = parseDailySeriesResponse(timeSeriesDailyFixture);
+
+const startReplay = (asOf: string) =>
+  createReplaySession({ symbol: 'aapl', bars, asOf, user: 'Practice' });
+
+describe('createReplaySession', () => {
+  it('hides every bar after the frozen date', () => {
+    const session = startReplay('2024-03-05');
+
+    expect(session.symbol).toBe('AAPL');
+    expect(getVisibleBars(session).map((bar) => bar.date)).toEqual([
+      '2024-03-01',
+      '2024-03-04',
+      '2024-03-05',
+    ]);
+  });
+
+  it('needs history on both sides of the frozen date', () => {
+    expect(() => startReplay('2024-02-01')).toThrow(RangeError);
+    expect(() => startReplay('2024-04-01')).toThrow(RangeError);
+  });
+});
+
+describe('makeReplayPrediction', () => {
+  it('resolves day and week calls instantly and scores them with S1 and S2', () => {
+    const first = makeReplayPrediction(startReplay('2024-03-22'), 'down', 'day');
+    const second = makeReplayPrediction(first.session, 'up', 'week');
+
+    expect(first.prediction).toMatchObject({
+      id: 1,
+      targetDate: '2024-03-25',
+      openPrice: 170.57,
+      closePrice: 170.85,
+      status: 'resolved',
+      user: 'Practice',
+    });
+    expect(second.prediction).toMatchObject({
+      id: 2,
+      targetDate: '2024-03-28',
+      openPrice: 170.57,
+      closePrice: 171.48,
+      status: 'resolved',
+    });
+
+    const score = scoreReplay(second.session);
+    expect(score).toMatchObject({ pointsS1: 0, resolvedCount: 2, correctCount: 1 });
+    expect(score.pointsS2).toBeCloseTo(
+      ((170.57 - 170.85) / 170.57) * 100 + ((171.48 - 170.57) / 170.57) * 100,
+      10,
+    );
+  });
+
+  it('only scores calls from sessions after the frozen date', () => {
+    const session = startReplay('2024-03-05');
+    const { prediction } = makeReplayPrediction(session, 'up', 'day');
+    const firstHidden = session.bars.find((bar) => bar.date > session.asOf);
+
+    expect(prediction.openPrice).toBe(firstHidden?.open);
+    // Monday's bar is already visible, so a week call waits for the next whole week.
+    expect(() => makeReplayPrediction(startReplay('2024-03-25'), 'up', 'week')).toThrow(
+      /ends before 2024-04-05/,
+    );
+    expect(makeReplayPrediction(startReplay('2024-03-22'), 'up', 'week').prediction.openPrice).toBe(
+      session.bars.find((bar) => bar.date > '2024-03-22')?.open,
+    );
+  });
+
+  it('follows the exchange calendar across holidays', () => {
+    const { prediction } = makeReplayPrediction(startReplay('2024-03-28'), 'down', 'day');
+
+    expect(prediction).toMatchObject({
+      targetDate: '2024-04-01',
+      openPrice: 171.19,
+      closePrice: 170.03,
+    });
+  });
+
+  it('keeps predictions the history cannot settle as unresolved', () => {
+    const { session, prediction } = makeReplayPrediction(startReplay('2024-03-08'), 'up', 'day');
+
+    expect(prediction.status).toBe('pending');
+    expect(session.unresolved).toEqual([
+      expect.objectContaining({ prediction, reason: 'no-trading-data' }),
+    ]);
+    expect(scoreReplay(session).resolvedCount).toBe(0);
+    expect(() => makeReplayPrediction(startReplay('2024-03-28'), 'up', 'week')).toThrow(
+      /ends before 2024-04-05/,
+    );
+  });
+});
+
+describe('advanceReplay', () => {
+  it('reveals stored sessions without exposing the last one', () => {
+    const session = startReplay('2024-03-07');
+
+    expect(advanceReplay(session).asOf).toBe('2024-03-08');
+    expect(advanceReplay(session, 2).asOf).toBe('2024-03-25');
+    expect(advanceReplay(session, 50).asOf).toBe('2024-03-28');
+    expect(advanceReplay(startReplay('2024-03-28'))).toEqual(startReplay('2024-03-28'));
+  });
+});
@@ -0,0 +1,171 @@
+import { type DailyBar } from './alphaVantage.js';
+import {
+  calculateSystem1Points,
+  calculateSystem2Points,
+  getActualDirection,
+  type Prediction,
+  type TrendDirection,
+} from './prediction.js';
+import { resolvePredictionsFromSeries, type UnresolvedPrediction } from './predictionResolver.js';
+import {
+  addCalendarDays,
+  DEFAULT_EXCHANGE,
+  getPredictionTargetDate,
+  type ExchangeId,
+} from './tradingCalendar.js';
+
+export type ReplayPeriod = 'day' | 'week';
+
+/**
+ * A practice game over stored history. Only bars up to `asOf` are meant to be shown; the rest
+ * stay in `bars` so predictions can be resolved the moment they are made.
+ */
+export interface ReplaySession {
+  symbol: string;
+  user: string;
+  exchange: ExchangeId;
+  /** The frozen "today": the last session whose close the player has seen. */
+  asOf: string;
+  bars: DailyBar[];
+  predictions: Prediction[];
+  /** Predictions the hidden history could not settle, e.g. a week with no trading data. */
+  unresolved: UnresolvedPrediction[];
+}
+
+export interface CreateReplayInput {
+  symbol: string;
+  bars: DailyBar[];
+  asOf: string;
+  user: string;
+  exchange?: ExchangeId;
+}
+
+export interface ReplayScore {
+  pointsS1: number;
+  pointsS2: number;
+  resolvedCount: number;
+  correctCount: number;
+}
+
+export const REPLAY_PERIODS: readonly ReplayPeriod[] = ['day', 'week'];
+
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/**
+ * 22:00 UTC is after the close in New York and London yet still on the same calendar date, so
+ * calls are placed once the frozen session's bar is known and every window opens after it.
+ */
+const toReferenceInstant = (isoDate: string): Date => new Date(`${isoDate}T22:00:00.000Z`);
+
+export const createReplaySession = (input: CreateReplayInput): ReplaySession => {
+  const symbol = normalizeSymbol(input.symbol);
+  const bars = [...input.bars].sort((a, b) => a.date.localeCompare(b.date));
+
+  if (!symbol) {
+    throw new RangeError('Replays need a ticker symbol.');
+  }
+
+  if (!bars.some((bar) => bar.date <= input.asOf)) {
+    throw new RangeError(`No ${symbol} history on or before ${input.asOf}.`);
+  }
+
+  if (!bars.some((bar) => bar.date > input.asOf)) {
+    throw new RangeError(`No ${symbol} history after ${input.asOf} to replay.`);
+  }
+
+  return {
+    symbol,
+    user: input.user,
+    exchange: input.exchange ?? DEFAULT_EXCHANGE,
+    asOf: input.asOf,
+    bars,
+    predictions: [],
+    unresolved: [],
+  };
+};
+
+/** The bars a player may see: everything up to and including the frozen date. */
+export const getVisibleBars = (session: ReplaySession): DailyBar[] =>
+  session.bars.filter((bar) => bar.date <= session.asOf);
+
+/**
+ * Records a prediction made at the frozen date and resolves it straight away from the hidden
+ * bars. Predictions the history cannot settle are kept in `unresolved`.
+ */
+export const makeReplayPrediction = (
+  session: ReplaySession,
+  direction: TrendDirection,
+  period: ReplayPeriod,
+): { session: ReplaySession; prediction: Prediction } => {
+  if (!REPLAY_PERIODS.includes(period)) {
+    throw new RangeError(`Replays support ${REPLAY_PERIODS.join(' and ')} predictions.`);
+  }
+
+  const targetDate = getPredictionTargetDate(period, toReferenceInstant(session.asOf), {
+    exchange: session.exchange,
+  });
+  const lastBar = session.bars[session.bars.length - 1];
+
+  if (targetDate > lastBar.date) {
+    throw new RangeError(`The stored history ends before ${targetDate}.`);
+  }
+
+  const pending: Prediction = {
+    id: session.predictions.reduce((highest, existing) => Math.max(highest, existing.id), 0) + 1,
+    symbol: session.symbol,
+    prediction: direction,
+    period,
+    madeAt: toReferenceInstant(session.asOf).toISOString(),
+    targetDate,
+    openPrice: null,
+    closePrice: null,
+    status: 'pending',
+    user: session.user,
+  };
+  // Resolving as of the day after the last bar treats every stored session as closed.
+  const { resolved, unresolved } = resolvePredictionsFromSeries(
+    [pending],
+    { [session.symbol]: session.bars },
+    { today: addCalendarDays(lastBar.date, 1) },
+  );
+  const prediction = resolved[0] ?? pending;
+
+  return {
+    session: {
+      ...session,
+      predictions: [...session.predictions, prediction],
+      unresolved: [...session.unresolved, ...unresolved],
+    },
+    prediction,
+  };
+};
+
+/**
+ * Moves the frozen date forward by `sessions` stored bars, revealing more history. Gaps in the
+ * data are skipped, and the last bar always stays hidden so there is something left to call.
+ */
+export const advanceReplay = (session: ReplaySession, sessions = 1): ReplaySession => {
+  if (!Number.isInteger(sessions) || sessions < 1) {
+    throw new RangeError('Advance by a whole number of sessions.');
+  }
+
+  const visibleCount = getVisibleBars(session).length;
+  const index = Math.min(visibleCount - 1 + sessions, session.bars.length - 2);
+  const asOf = session.bars[index].date;
+
+  return asOf > session.asOf ? { ...session, asOf } : session;
+};
+
+/** Scores the session's resolved predictions with the System 1 and System 2 rules. */
+export const scoreReplay = (session: ReplaySession): ReplayScore => {
+  const resolved = session.predictions.filter((prediction) => prediction.status === 'resolved');
+
+  return {
+    pointsS1: calculateSystem1Points(resolved),
+    pointsS2: calculateSystem2Points(resolved),
+    resolvedCount: resolved.length,
+    correctCount: resolved.filter(
+      (prediction) => getActualDirection(prediction) === prediction.prediction,
+    ).length,
+  };
+};
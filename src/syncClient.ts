@@ -0,0 +1,104 @@
+import {
+  type FlaggedPrediction,
+  type LeagueEntry,
+  type LeagueUsers,
+  type PredictionConflict,
+} from './prediction.js';
+import { type Ranking, type RankingOptions } from './ranking.js';
+
+export interface SyncResponseLike {
+  status: number;
+  json(): Promise<unknown>;
+}
+
+export type SyncFetchLike = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string },
+) => Promise<SyncResponseLike>;
+
+export type SyncResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; message: string };
+
+export interface PushUserResult {
+  added: boolean;
+  updated: boolean;
+  entry: LeagueEntry;
+  flagged: FlaggedPrediction[];
+  conflicts: PredictionConflict[];
+}
+
+export interface SyncClientOptions {
+  baseUrl: string;
+  fetch?: SyncFetchLike;
+}
+
+export interface SyncClient {
+  pushUser(
+    leagueId: string,
+    username: string,
+    entry: Partial<LeagueEntry>,
+  ): Promise<SyncResult<PushUserResult>>;
+  pullUsers(leagueId: string): Promise<SyncResult<LeagueUsers>>;
+  getLeaderboard(
+    leagueId: string,
+    options?: Pick<RankingOptions, 'metric' | 'minPredictions'>,
+  ): Promise<SyncResult<Ranking>>;
+}
+
+/** Typed client for the sync server. Failures, including network errors, resolve as results. */
+export const createSyncClient = (options: SyncClientOptions): SyncClient => {
+  const fetchJson: SyncFetchLike =
+    options.fetch ?? ((url, init) => fetch(url, init) as Promise<SyncResponseLike>);
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const leagueUrl = (leagueId: string, path: string) =>
+    `${baseUrl}/leagues/${encodeURIComponent(leagueId)}/${path}`;
+
+  const send = async <T>(url: string, method = 'GET', body?: unknown): Promise<SyncResult<T>> => {
+    try {
+      const response = await fetchJson(url, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const payload = await response.json();
+
+      if (response.status >= 200 && response.status < 300) {
+        return { ok: true, status: response.status, data: payload as T };
+      }
+
+      const message = (payload as { error?: unknown } | null)?.error;
+      return {
+        ok: false,
+        status: response.status,
+        message: typeof message === 'string' ? message : `Request failed with ${response.status}.`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        status: 0,
+        message: error instanceof Error ? error.message : 'Sync server unreachable.',
+      };
+    }
+  };
+
+  return {
+    pushUser: (leagueId, username, entry) =>
+      send(leagueUrl(leagueId, `users/${encodeURIComponent(username)}`), 'PUT', entry),
+    pullUsers: (leagueId) => send(leagueUrl(leagueId, 'users')),
+    getLeaderboard: (leagueId, query = {}) => {
+      const params = new URLSearchParams();
+
+      if (query.metric) {
+        params.set('metric', query.metric);
+      }
+
+      if (query.minPredictions !== undefined) {
+        params.set('minPredictions', String(query.minPredictions));
+      }
+
+      const search = params.toString();
+      return send(leagueUrl(leagueId, `leaderboard${search ? `?${search}` : ''}`));
+    },
+  };
+};
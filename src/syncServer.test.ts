@@ -0,0 +1,191 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { type Prediction } from './prediction.js';
+import { createSyncClient, type SyncClient } from './syncClient.js';
+import {
+  createFileLeagueStore,
+  createMemoryLeagueStore,
+  createSyncServer,
+  type SyncServer,
+} from './syncServer.js';
+
+describe('league sync server', () => {
+  const basePrediction: Prediction = {
+    id: 1,
+    symbol: 'AAPL',
+    prediction: 'up',
+    period: 'day',
+    madeAt: '2024-03-04T15:00:00.000Z',
+    targetDate: '2024-03-05',
+    openPrice: 100,
+    closePrice: 110,
+    status: 'resolved',
+    user: 'Alpha',
+  };
+
+  let sync: SyncServer;
+  let client: SyncClient;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    sync = createSyncServer({
+      store: createMemoryLeagueStore(),
+      maxBodyBytes: 4096,
+      allowedOrigins: ['https://game.example'],
+    });
+    ({ url: baseUrl } = await sync.listen());
+    client = createSyncClient({ baseUrl });
+  });
+
+  afterEach(async () => {
+    await sync.close();
+  });
+
+  it('pushes entries through the merge and pulls the league back', async () => {
+    const first = await client.pushUser('spring', 'Alpha', {
+      predictions: [basePrediction],
+      pointsS1: 99,
+      updatedAt: '2024-03-05T00:00:00.000Z',
+    });
+
+    expect(first).toMatchObject({ ok: true, status: 201, data: { added: true, updated: false } });
+    expect(first.ok && first.data.entry.pointsS1).toBe(1);
+
+    const second = await client.pushUser('spring', 'Alpha', {
+      predictions: [{ ...basePrediction, id: 2, prediction: 'down' }],
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    });
+
+    expect(second).toMatchObject({ ok: true, status: 200, data: { updated: true } });
+
+    const pulled = await client.pullUsers('spring');
+    expect(pulled.ok && pulled.data.Alpha.predictions.map((prediction) => prediction.id)).toEqual([
+      1, 2,
+    ]);
+    expect(await client.pullUsers('winter')).toEqual({ ok: true, status: 200, data: {} });
+  });
+
+  it('serves the leaderboard with ranking options', async () => {
+    await Promise.all([
+      client.pushUser('spring', 'Alpha', { predictions: [basePrediction] }),
+      client.pushUser('spring', 'Bravo', {
+        predictions: [
+          { ...basePrediction, closePrice: 150 },
+          { ...basePrediction, id: 2 },
+        ],
+      }),
+    ]);
+
+    const leaderboard = await client.getLeaderboard('spring', { metric: 'S2', minPredictions: 2 });
+
+    expect(leaderboard.ok && leaderboard.data.ranked.map((player) => player.username)).toEqual([
+      'Bravo',
+    ]);
+    expect(leaderboard.ok && leaderboard.data.ineligible.map((player) => player.username)).toEqual([
+      'Alpha',
+    ]);
+  });
+
+  it('rejects bad requests with JSON errors', async () => {
+    expect(await client.getLeaderboard('spring', { metric: 'luck' as 'S1' })).toEqual({
+      ok: false,
+      status: 400,
+      message: 'Unknown ranking metric "luck".',
+    });
+    expect(await client.pullUsers('no spaces')).toMatchObject({ ok: false, status: 400 });
+    expect(await client.pushUser('spring', 'Alpha', {})).toMatchObject({
+      ok: false,
+      status: 400,
+      message: 'Expected a league entry with a predictions array.',
+    });
+
+    const oversized = await client.pushUser('spring', 'Alpha', {
+      predictions: Array.from({ length: 50 }, (_, id) => ({ ...basePrediction, id })),
+    });
+    expect(oversized).toMatchObject({ ok: false, status: 413 });
+
+    const wrongMethod = await fetch(`${baseUrl}/leagues/spring/users`, { method: 'DELETE' });
+    expect(wrongMethod.status).toBe(405);
+    expect((await fetch(`${baseUrl}/elsewhere`)).status).toBe(404);
+    expect(await (await fetch(`${baseUrl}/health`)).json()).toEqual({ ok: true });
+  });
+
+  it('answers CORS preflights for cross-origin pushes from allowed origins', async () => {
+    const preflight = await fetch(`${baseUrl}/leagues/spring/users/Alpha`, {
+      method: 'OPTIONS',
+      headers: {
+        Origin: 'https://game.example',
+        'Access-Control-Request-Method': 'PUT',
+        'Access-Control-Request-Headers': 'content-type',
+      },
+    });
+
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://game.example');
+    expect(preflight.headers.get('vary')).toBe('Origin');
+    expect(preflight.headers.get('access-control-allow-methods')).toContain('PUT');
+    expect(preflight.headers.get('access-control-allow-headers')).toContain('Content-Type');
+
+    const pushed = await fetch(`${baseUrl}/leagues/spring/users/Alpha`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://game.example' },
+      body: JSON.stringify({ predictions: [basePrediction] }),
+    });
+    expect(pushed.status).toBe(201);
+    expect(pushed.headers.get('access-control-allow-methods')).toContain('PUT');
+  });
+
+  it('refuses requests from origins that are not allowed', async () => {
+    const headers = { Origin: 'https://evil.example' };
+    const preflight = await fetch(`${baseUrl}/leagues/spring/users/Alpha`, {
+      method: 'OPTIONS',
+      headers: { ...headers, 'Access-Control-Request-Method': 'PUT' },
+    });
+
+    expect(preflight.status).toBe(403);
+    expect(preflight.headers.get('access-control-allow-origin')).toBeNull();
+
+    const pushed = await fetch(`${baseUrl}/leagues/spring/users/Alpha`, {
+      method: 'PUT',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ predictions: [basePrediction] }),
+    });
+    expect(pushed.status).toBe(403);
+    expect(await client.pullUsers('spring')).toEqual({ ok: true, status: 200, data: {} });
+  });
+
+  it('reports an unreachable server as a failed result', async () => {
+    await sync.close();
+    const result = await client.pullUsers('spring');
+
+    expect(result).toMatchObject({ ok: false, status: 0 });
+    sync = createSyncServer({ store: createMemoryLeagueStore() });
+    await sync.listen();
+  });
+
+  it('persists leagues to JSON files', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'league-sync-'));
+
+    try {
+      const store = createFileLeagueStore(directory);
+      expect(await store.read('spring')).toBeNull();
+
+      const fileSync = createSyncServer({ store });
+      const { url } = await fileSync.listen();
+      await createSyncClient({ baseUrl: url }).pushUser('spring', 'Alpha', {
+        predictions: [basePrediction],
+      });
+      await fileSync.close();
+
+      const saved = JSON.parse(await readFile(join(directory, 'spring.json'), 'utf8'));
+      expect(Object.keys(saved)).toEqual(['Alpha']);
+      expect((await store.read('spring'))?.Alpha.pointsS1).toBe(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
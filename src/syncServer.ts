@@ -0,0 +1,324 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { join } from 'node:path';
+
+import { mergeLeagueUsers, normalizeUsers, type LeagueUsers } from './prediction.js';
+import { rankLeagueUsers, type RankingMetric } from './ranking.js';
+
+/** Persists each league's merged users; `read` resolves null for leagues never written. */
+export interface LeagueStore {
+  read(leagueId: string): Promise<LeagueUsers | null>;
+  write(leagueId: string, users: LeagueUsers): Promise<void>;
+}
+
+export interface SyncServerOptions {
+  store: LeagueStore;
+  maxBodyBytes?: number;
+  /**
+   * Browser origins (e.g. `https://game.example`) allowed to call the API. Requests carrying
+   * any other `Origin` are refused; clients that send none, like the CLI, are unaffected.
+   */
+  allowedOrigins?: string[];
+}
+
+export interface SyncServer {
+  server: Server;
+  /** Starts listening, on localhost by default; port 0 picks a free port. */
+  listen(port?: number, host?: string): Promise<{ port: number; url: string }>;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+export const SYNC_API_PREFIX = '/leagues';
+
+const LEAGUE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_USERNAME_LENGTH = 64;
+const RANKING_METRICS: readonly RankingMetric[] = ['S1', 'S2', 'hitRate', 'composite'];
+
+/** Lets an allowed origin call the API, including the preflight for JSON PUTs. */
+const getCorsHeaders = (origin: string | undefined): Record<string, string> =>
+  origin
+    ? {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '86400',
+        Vary: 'Origin',
+      }
+    : {};
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const createMemoryLeagueStore = (): LeagueStore => {
+  const leagues = new Map<string, string>();
+
+  return {
+    read: async (leagueId) => {
+      const stored = leagues.get(leagueId);
+      return stored ? (JSON.parse(stored) as LeagueUsers) : null;
+    },
+    write: async (leagueId, users) => {
+      leagues.set(leagueId, JSON.stringify(users));
+    },
+  };
+};
+
+/**
+ * Stores each league as `<directory>/<leagueId>.json`. Writes go to a temporary file that is
+ * then renamed over the old one, so a crash never leaves a half-written league behind.
+ */
+export const createFileLeagueStore = (directory: string): LeagueStore => ({
+  read: async (leagueId) => {
+    try {
+      return JSON.parse(await readFile(join(directory, `${leagueId}.json`), 'utf8')) as LeagueUsers;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  },
+  write: async (leagueId, users) => {
+    await mkdir(directory, { recursive: true });
+    const target = join(directory, `${leagueId}.json`);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(users), 'utf8');
+    await rename(temporary, target);
+  },
+});
+
+const sendJson = (
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void => {
+  const payload = JSON.stringify(body);
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+    ...headers,
+  });
+  response.end(payload);
+};
+
+const readJsonBody = (request: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Oversized bodies are drained rather than cut off so the client still gets the 413.
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => {
+      if (size > maxBytes) {
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON.'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const parseLeagueId = (value: string): string => {
+  if (!LEAGUE_ID_PATTERN.test(value)) {
+    throw new HttpError(400, 'League ids use letters, digits, "-" and "_" (at most 64).');
+  }
+  return value;
+};
+
+const parseUsername = (value: string): string => {
+  let username: string;
+
+  try {
+    username = decodeURIComponent(value).trim();
+  } catch {
+    throw new HttpError(400, 'Username is not valid URL encoding.');
+  }
+
+  if (!username || username.length > MAX_USERNAME_LENGTH) {
+    throw new HttpError(400, `Usernames must be 1 to ${MAX_USERNAME_LENGTH} characters.`);
+  }
+
+  return username;
+};
+
+const parseRankingQuery = (params: URLSearchParams) => {
+  const metric = params.get('metric') ?? 'S1';
+  const minPredictions = Number(params.get('minPredictions') ?? 0);
+
+  if (!RANKING_METRICS.includes(metric as RankingMetric)) {
+    throw new HttpError(400, `Unknown ranking metric "${metric}".`);
+  }
+
+  if (!Number.isInteger(minPredictions) || minPredictions < 0) {
+    throw new HttpError(400, 'minPredictions must be a non-negative whole number.');
+  }
+
+  return { metric: metric as RankingMetric, minPredictions };
+};
+
+/**
+ * Handles the sync API, answering `OPTIONS` preflights from allowed origins on any path with
+ * 204 and refusing every request from other origins with 403:
+ * - `GET  /health`
+ * - `GET  /leagues/:leagueId/users` returns the league's merged `LeagueUsers`.
+ * - `PUT  /leagues/:leagueId/users/:username` merges a player's `LeagueEntry` into the league.
+ * - `GET  /leagues/:leagueId/leaderboard?metric=S1&minPredictions=0` returns a `Ranking`.
+ */
+export const createSyncRequestHandler = (options: SyncServerOptions) => {
+  const { store } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  const leagueLocks = new Map<string, Promise<unknown>>();
+
+  const loadUsers = async (leagueId: string): Promise<LeagueUsers> =>
+    normalizeUsers(await store.read(leagueId)).normalizedUsers;
+
+  // Pushes to the same league are applied one at a time so concurrent merges never race.
+  const withLeagueLock = <T>(leagueId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (leagueLocks.get(leagueId) ?? Promise.resolve()).then(task, task);
+    leagueLocks.set(
+      leagueId,
+      run.catch(() => undefined),
+    );
+    return run;
+  };
+
+  const pushUser = async (leagueId: string, username: string, body: unknown) => {
+    if (
+      !body ||
+      typeof body !== 'object' ||
+      !Array.isArray((body as { predictions?: unknown }).predictions)
+    ) {
+      throw new HttpError(400, 'Expected a league entry with a predictions array.');
+    }
+
+    return withLeagueLock(leagueId, async () => {
+      const summary = mergeLeagueUsers(await loadUsers(leagueId), { [username]: body });
+      await store.write(leagueId, summary.mergedUsers);
+
+      return {
+        added: summary.added.includes(username),
+        updated: summary.updated.includes(username),
+        entry: summary.mergedUsers[username],
+        flagged: summary.flagged,
+        conflicts: summary.conflicts,
+      };
+    });
+  };
+
+  const route = async (request: IncomingMessage): Promise<{ status: number; body: unknown }> => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+    const method = request.method ?? 'GET';
+
+    if (url.pathname === '/health') {
+      return { status: 200, body: { ok: true } };
+    }
+
+    if (`/${segments[0]}` !== SYNC_API_PREFIX || segments.length < 3) {
+      throw new HttpError(404, 'Not found.');
+    }
+
+    const leagueId = parseLeagueId(segments[1]);
+    const resource = segments.slice(2);
+
+    if (resource.length === 1 && resource[0] === 'users') {
+      if (method !== 'GET') {
+        throw new HttpError(405, 'Use GET to pull league users.');
+      }
+
+      return { status: 200, body: await loadUsers(leagueId) };
+    }
+
+    if (resource.length === 2 && resource[0] === 'users') {
+      if (method !== 'PUT') {
+        throw new HttpError(405, 'Use PUT to push a player entry.');
+      }
+
+      const username = parseUsername(resource[1]);
+      const result = await pushUser(leagueId, username, await readJsonBody(request, maxBodyBytes));
+      return { status: result.added ? 201 : 200, body: result };
+    }
+
+    if (resource.length === 1 && resource[0] === 'leaderboard') {
+      if (method !== 'GET') {
+        throw new HttpError(405, 'Use GET to fetch the leaderboard.');
+      }
+
+      const query = parseRankingQuery(url.searchParams);
+      return { status: 200, body: rankLeagueUsers(await loadUsers(leagueId), query) };
+    }
+
+    throw new HttpError(404, 'Not found.');
+  };
+
+  return async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const { origin } = request.headers;
+
+    if (origin && !allowedOrigins.has(origin)) {
+      sendJson(response, 403, { error: `Origin ${origin} is not allowed.` });
+      return;
+    }
+
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, corsHeaders);
+      response.end();
+      return;
+    }
+
+    try {
+      const { status, body } = await route(request);
+      sendJson(response, status, body, corsHeaders);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof HttpError ? error.message : 'Internal server error.';
+      sendJson(response, status, { error: message }, corsHeaders);
+    }
+  };
+};
+
+export const createSyncServer = (options: SyncServerOptions): SyncServer => {
+  const handler = createSyncRequestHandler(options);
+  const server = createServer((request, response) => {
+    handler(request, response).catch(() => response.destroy());
+  });
+
+  return {
+    server,
+    listen: (port = 0, host = '127.0.0.1') =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          const address = server.address() as AddressInfo;
+          resolve({ port: address.port, url: `http://${host}:${address.port}` });
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,38 @@
+import { resolve } from 'node:path';
+
+import { createFileLeagueStore, createSyncServer } from './syncServer.js';
+
+/**
+ * Starts the league sync server on localhost, storing leagues as JSON files. Configured with
+ * `SYNC_PORT` (default 8787), `SYNC_HOST` (default 127.0.0.1), `SYNC_DATA_DIR` (default
+ * `./league-data`) and `SYNC_ALLOWED_ORIGINS`, a comma-separated list of web app origins that
+ * may call it from a browser (default none).
+ */
+const DEFAULT_PORT = 8787;
+
+const port = Number(process.env.SYNC_PORT ?? DEFAULT_PORT);
+const host = process.env.SYNC_HOST ?? '127.0.0.1';
+const directory = resolve(process.env.SYNC_DATA_DIR ?? 'league-data');
+const allowedOrigins = (process.env.SYNC_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  throw new RangeError(`SYNC_PORT must be a port number, got "${process.env.SYNC_PORT}".`);
+}
+
+const sync = createSyncServer({ store: createFileLeagueStore(directory), allowedOrigins });
+const { url } = await sync.listen(port, host);
+
+process.stdout.write(`League sync server listening on ${url}, storing leagues in ${directory}\n`);
+
+const shutdown = () => {
+  sync.close().then(
+    () => process.exit(0),
+    () => process.exit(1),
+  );
+};
+
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
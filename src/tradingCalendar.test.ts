@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addTradingDays,
+  getCalendarSpan,
+  getExchangeDateTime,
+  getExchangeHolidays,
+  getLastTradingDayOfWeek,
+  getMarketStatus,
+  getNextTradingDay,
+  getPredictionTargetDate,
+  getTradingSession,
+  isTradingDay,
+} from './tradingCalendar.js';
+
+describe('trading calendar', () => {
+  it('computes NYSE holidays by rule', () => {
+    expect(Array.from(getExchangeHolidays('NYSE', 2024).keys())).toEqual([
+      '2024-01-01',
+      '2024-01-15',
+      '2024-02-19',
+      '2024-03-29',
+      '2024-05-27',
+      '2024-06-19',
+      '2024-07-04',
+      '2024-09-02',
+      '2024-11-28',
+      '2024-12-25',
+    ]);
+  });
+
+  it('applies weekend observance rules', () => {
+    // Juneteenth 2027 is a Saturday, observed on Friday.
+    expect(isTradingDay('NYSE', '2027-06-18')).toBe(false);
+    // New Year's Day 2022 was a Saturday and NYSE stayed open on 31 December 2021.
+    expect(isTradingDay('NYSE', '2021-12-31')).toBe(true);
+    // Christmas 2022 was a Sunday: LSE closed on the 26th and 27th.
+    expect(isTradingDay('LSE', '2022-12-26')).toBe(false);
+    expect(isTradingDay('LSE', '2022-12-27')).toBe(false);
+    expect(isTradingDay('LSE', '2022-12-28')).toBe(true);
+  });
+
+  it('knows LSE-specific bank holidays', () => {
+    expect(isTradingDay('LSE', '2024-04-01')).toBe(false);
+    expect(isTradingDay('NYSE', '2024-04-01')).toBe(true);
+    expect(isTradingDay('LSE', '2024-08-26')).toBe(false);
+    expect(isTradingDay('LSE', '2024-11-28')).toBe(true);
+  });
+
+  it('reports early closes', () => {
+    expect(getTradingSession('NYSE', '2024-11-29')).toEqual({
+      date: '2024-11-29',
+      openTime: '09:30',
+      closeTime: '13:00',
+      isEarlyClose: true,
+    });
+    expect(getTradingSession('NYSE', '2024-07-03')?.isEarlyClose).toBe(true);
+    // 3 July 2026 is the observed Independence Day holiday, not a half day.
+    expect(getTradingSession('NYSE', '2026-07-03')).toBeNull();
+    expect(getTradingSession('LSE', '2024-12-31')?.closeTime).toBe('12:30');
+    expect(getTradingSession('NYSE', '2024-03-28')?.isEarlyClose).toBe(false);
+  });
+
+  it('skips weekends and holidays when stepping forward', () => {
+    expect(getNextTradingDay('NYSE', '2024-03-28')).toBe('2024-04-01');
+    expect(getNextTradingDay('LSE', '2024-03-28')).toBe('2024-04-02');
+    expect(getLastTradingDayOfWeek('NYSE', '2024-03-25')).toBe('2024-03-28');
+    expect(getLastTradingDayOfWeek('NYSE', '2024-03-31')).toBe('2024-03-28');
+  });
+
+  it('converts instants to exchange time', () => {
+    const instant = new Date('2024-03-05T03:30:00Z');
+
+    expect(getExchangeDateTime('NYSE', instant)).toEqual({ date: '2024-03-04', time: '22:30' });
+    expect(getExchangeDateTime('LSE', instant)).toEqual({ date: '2024-03-05', time: '03:30' });
+  });
+
+  it('selects target dates in exchange time around holidays', () => {
+    // Thursday evening in New York before Good Friday.
+    const thursdayEvening = new Date('2024-03-28T22:00:00Z');
+
+    expect(getPredictionTargetDate('day', thursdayEvening)).toBe('2024-04-01');
+    expect(getPredictionTargetDate('week', thursdayEvening)).toBe('2024-04-05');
+    // Once Monday's session has opened, a week call moves on to the next whole week.
+    expect(getPredictionTargetDate('week', new Date('2024-03-25T12:00:00Z'))).toBe('2024-03-28');
+    expect(getPredictionTargetDate('week', new Date('2024-03-26T15:00:00Z'))).toBe('2024-04-05');
+    expect(getPredictionTargetDate('day', new Date('2024-11-27T15:00:00Z'))).toBe('2024-11-29');
+    expect(getPredictionTargetDate('week', new Date('2024-03-09T15:00:00Z'))).toBe('2024-03-15');
+    expect(getPredictionTargetDate('day', thursdayEvening, { exchange: 'LSE' })).toBe('2024-04-02');
+  });
+
+  it('describes market status', () => {
+    expect(getMarketStatus('NYSE', new Date('2024-03-29T15:00:00Z'))).toEqual({
+      exchange: 'NYSE',
+      state: 'non-trading',
+      exchangeDate: '2024-03-29',
+      exchangeTime: '11:00',
+      session: null,
+      holidayName: 'Good Friday',
+      nextSessionDate: '2024-04-01',
+    });
+    expect(getMarketStatus('NYSE', new Date('2024-11-29T18:30:00Z')).state).toBe('closed');
+    expect(getMarketStatus('NYSE', new Date('2024-11-29T17:30:00Z')).state).toBe('open');
+    expect(getMarketStatus('LSE', new Date('2024-07-01T06:30:00Z'))).toMatchObject({
+      state: 'pre-open',
+      exchangeTime: '07:30',
+      nextSessionDate: '2024-07-01',
+    });
+  });
+
+  it('selects month, quarter and custom horizon target dates', () => {
+    const midMarch = new Date('2024-03-12T15:00:00Z');
+
+    // March 2024 ends on Good Friday, so the month and quarter end on Thursday the 28th.
+    const beforeMarchOpens = new Date('2024-03-01T13:00:00Z');
+    expect(getPredictionTargetDate('month', beforeMarchOpens)).toBe('2024-03-28');
+    expect(getPredictionTargetDate('quarter', new Date('2024-01-01T15:00:00Z'))).toBe('2024-03-28');
+    expect(getPredictionTargetDate('month', midMarch)).toBe('2024-04-30');
+    expect(getPredictionTargetDate('quarter', midMarch)).toBe('2024-06-28');
+    expect(getPredictionTargetDate('month', new Date('2024-03-28T15:00:00Z'))).toBe('2024-04-30');
+    expect(getPredictionTargetDate('quarter', new Date('2024-03-28T15:00:00Z'))).toBe('2024-06-28');
+    expect(getPredictionTargetDate('custom', midMarch, { horizonDays: 5 })).toBe('2024-03-19');
+    expect(() => getPredictionTargetDate('custom', midMarch)).toThrow(RangeError);
+  });
+
+  it('computes calendar spans and trading-day offsets', () => {
+    expect(getCalendarSpan('quarter', '2024-05-15')).toEqual({
+      startDate: '2024-04-01',
+      endDate: '2024-06-30',
+    });
+    expect(getCalendarSpan('month', '2024-02-10')).toEqual({
+      startDate: '2024-02-01',
+      endDate: '2024-02-29',
+    });
+    expect(addTradingDays('NYSE', '2024-04-02', -2)).toBe('2024-03-28');
+    expect(addTradingDays('NYSE', '2024-04-02', 0)).toBe('2024-04-02');
+  });
+});
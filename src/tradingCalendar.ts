@@ -0,0 +1,469 @@
+import { type PredictionPeriod } from './prediction.js';
+
+export type ExchangeId = 'NYSE' | 'LSE';
+
+export interface ExchangeDefinition {
+  id: ExchangeId;
+  name: string;
+  timeZone: string;
+  openTime: string;
+  closeTime: string;
+  earlyCloseTime: string;
+}
+
+export interface TradingSession {
+  date: string;
+  openTime: string;
+  closeTime: string;
+  isEarlyClose: boolean;
+}
+
+export type MarketState = 'pre-open' | 'open' | 'closed' | 'non-trading';
+
+export interface MarketStatus {
+  exchange: ExchangeId;
+  state: MarketState;
+  exchangeDate: string;
+  exchangeTime: string;
+  session: TradingSession | null;
+  holidayName?: string;
+  nextSessionDate: string;
+}
+
+export const EXCHANGES: Record<ExchangeId, ExchangeDefinition> = {
+  NYSE: {
+    id: 'NYSE',
+    name: 'New York Stock Exchange',
+    timeZone: 'America/New_York',
+    openTime: '09:30',
+    closeTime: '16:00',
+    earlyCloseTime: '13:00',
+  },
+  LSE: {
+    id: 'LSE',
+    name: 'London Stock Exchange',
+    timeZone: 'Europe/London',
+    openTime: '08:00',
+    closeTime: '16:30',
+    earlyCloseTime: '12:30',
+  },
+};
+
+export const DEFAULT_EXCHANGE: ExchangeId = 'NYSE';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const utcDate = (year: number, monthIndex: number, day: number): Date =>
+  new Date(Date.UTC(year, monthIndex, day));
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const fromIsoDate = (value: string): Date => {
+  if (!ISO_DATE_PATTERN.test(value)) {
+    throw new RangeError(`Expected a YYYY-MM-DD date, received "${value}".`);
+  }
+
+  return new Date(`${value}T00:00:00.000Z`);
+};
+
+export const addCalendarDays = (isoDate: string, days: number): string =>
+  toIsoDate(new Date(fromIsoDate(isoDate).getTime() + days * DAY_MS));
+
+/** Day of week for a YYYY-MM-DD date, 0 = Sunday. */
+export const getIsoWeekday = (isoDate: string): number => fromIsoDate(isoDate).getUTCDay();
+
+const isWeekend = (isoDate: string): boolean => {
+  const weekday = getIsoWeekday(isoDate);
+  return weekday === 0 || weekday === 6;
+};
+
+const nthWeekdayOfMonth = (year: number, monthIndex: number, weekday: number, n: number) => {
+  const first = utcDate(year, monthIndex, 1);
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return utcDate(year, monthIndex, 1 + offset + (n - 1) * 7);
+};
+
+const lastWeekdayOfMonth = (year: number, monthIndex: number, weekday: number) => {
+  const last = utcDate(year, monthIndex + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return utcDate(year, monthIndex, last.getUTCDate() - offset);
+};
+
+/** Gregorian Easter Sunday (anonymous Gregorian algorithm). */
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+};
+
+const shiftDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/** US rule: Saturday holidays move to Friday, Sunday holidays to Monday. */
+const observedUs = (date: Date): Date => {
+  const weekday = date.getUTCDay();
+
+  if (weekday === 6) {
+    return shiftDays(date, -1);
+  }
+
+  return weekday === 0 ? shiftDays(date, 1) : date;
+};
+
+/** UK rule: weekend holidays move to the next weekday. */
+const observedUk = (date: Date): Date => {
+  const weekday = date.getUTCDay();
+
+  if (weekday === 6) {
+    return shiftDays(date, 2);
+  }
+
+  return weekday === 0 ? shiftDays(date, 1) : date;
+};
+
+const getNyseHolidays = (year: number): Array<[Date, string]> => {
+  const holidays: Array<[Date, string]> = [];
+  const newYear = utcDate(year, 0, 1);
+
+  // NYSE does not close on Friday 31 December when 1 January falls on a Saturday.
+  if (newYear.getUTCDay() !== 6) {
+    holidays.push([observedUs(newYear), "New Year's Day"]);
+  }
+
+  holidays.push(
+    [nthWeekdayOfMonth(year, 0, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekdayOfMonth(year, 1, 1, 3), "Washington's Birthday"],
+    [shiftDays(getEasterSunday(year), -2), 'Good Friday'],
+    [lastWeekdayOfMonth(year, 4, 1), 'Memorial Day'],
+  );
+
+  if (year >= 2022) {
+    holidays.push([observedUs(utcDate(year, 5, 19)), 'Juneteenth']);
+  }
+
+  holidays.push(
+    [observedUs(utcDate(year, 6, 4)), 'Independence Day'],
+    [nthWeekdayOfMonth(year, 8, 1, 1), 'Labor Day'],
+    [nthWeekdayOfMonth(year, 10, 4, 4), 'Thanksgiving Day'],
+    [observedUs(utcDate(year, 11, 25)), 'Christmas Day'],
+  );
+
+  return holidays;
+};
+
+const getLseHolidays = (year: number): Array<[Date, string]> => {
+  const easter = getEasterSunday(year);
+  const christmas = utcDate(year, 11, 25);
+  const christmasWeekday = christmas.getUTCDay();
+  let christmasObserved = christmas;
+  let boxingObserved = utcDate(year, 11, 26);
+
+  if (christmasWeekday === 6) {
+    christmasObserved = utcDate(year, 11, 27);
+    boxingObserved = utcDate(year, 11, 28);
+  } else if (christmasWeekday === 0) {
+    christmasObserved = utcDate(year, 11, 27);
+  } else if (christmasWeekday === 5) {
+    boxingObserved = utcDate(year, 11, 28);
+  }
+
+  return [
+    [observedUk(utcDate(year, 0, 1)), "New Year's Day"],
+    [shiftDays(easter, -2), 'Good Friday'],
+    [shiftDays(easter, 1), 'Easter Monday'],
+    [nthWeekdayOfMonth(year, 4, 1, 1), 'Early May Bank Holiday'],
+    [lastWeekdayOfMonth(year, 4, 1), 'Spring Bank Holiday'],
+    [lastWeekdayOfMonth(year, 7, 1), 'Summer Bank Holiday'],
+    [christmasObserved, 'Christmas Day'],
+    [boxingObserved, 'Boxing Day'],
+  ];
+};
+
+const isMondayToThursday = (date: Date): boolean => date.getUTCDay() >= 1 && date.getUTCDay() <= 4;
+
+const getNyseEarlyCloses = (year: number): Date[] => [
+  // 3 July and Christmas Eve are half days only when they fall Monday to Thursday.
+  ...[utcDate(year, 6, 3), utcDate(year, 11, 24)].filter(isMondayToThursday),
+  shiftDays(nthWeekdayOfMonth(year, 10, 4, 4), 1),
+];
+
+const getLseEarlyCloses = (year: number): Date[] => [utcDate(year, 11, 24), utcDate(year, 11, 31)];
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+const getCachedHolidays = (exchange: ExchangeId, year: number): Map<string, string> => {
+  const cacheKey = `${exchange}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const rules = exchange === 'LSE' ? getLseHolidays(year) : getNyseHolidays(year);
+  const holidays = new Map<string, string>();
+
+  rules.forEach(([date, name]) => {
+    // An observed date can spill into the neighbouring year; only keep this year's dates.
+    if (date.getUTCFullYear() === year) {
+      holidays.set(toIsoDate(date), name);
+    }
+  });
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+};
+
+/**
+ * Full-day closures for a year keyed by YYYY-MM-DD, computed by rule. One-off closures
+ * (state funerals, royal events) are not modelled.
+ */
+export const getExchangeHolidays = (exchange: ExchangeId, year: number): Map<string, string> =>
+  new Map(getCachedHolidays(exchange, year));
+
+export const getHolidayName = (exchange: ExchangeId, isoDate: string): string | undefined =>
+  getCachedHolidays(exchange, fromIsoDate(isoDate).getUTCFullYear()).get(isoDate);
+
+export const isTradingDay = (exchange: ExchangeId, isoDate: string): boolean =>
+  !isWeekend(isoDate) && getHolidayName(exchange, isoDate) === undefined;
+
+export const getTradingSession = (exchange: ExchangeId, isoDate: string): TradingSession | null => {
+  if (!isTradingDay(exchange, isoDate)) {
+    return null;
+  }
+
+  const definition = EXCHANGES[exchange];
+  const year = fromIsoDate(isoDate).getUTCFullYear();
+  const earlyCloses = exchange === 'LSE' ? getLseEarlyCloses(year) : getNyseEarlyCloses(year);
+  const isEarlyClose = earlyCloses.some((date) => toIsoDate(date) === isoDate);
+
+  return {
+    date: isoDate,
+    openTime: definition.openTime,
+    closeTime: isEarlyClose ? definition.earlyCloseTime : definition.closeTime,
+    isEarlyClose,
+  };
+};
+
+export const getNextTradingDay = (exchange: ExchangeId, isoDate: string): string => {
+  let candidate = addCalendarDays(isoDate, 1);
+
+  while (!isTradingDay(exchange, candidate)) {
+    candidate = addCalendarDays(candidate, 1);
+  }
+
+  return candidate;
+};
+
+export const getPreviousTradingDay = (exchange: ExchangeId, isoDate: string): string => {
+  let candidate = addCalendarDays(isoDate, -1);
+
+  while (!isTradingDay(exchange, candidate)) {
+    candidate = addCalendarDays(candidate, -1);
+  }
+
+  return candidate;
+};
+
+/** Last trading day on or before `isoDate`. */
+export const getTradingDayOnOrBefore = (exchange: ExchangeId, isoDate: string): string =>
+  isTradingDay(exchange, isoDate) ? isoDate : getPreviousTradingDay(exchange, isoDate);
+
+/** Exchange-local `YYYY-MM-DDTHH:MM` at which the first session on or after `isoDate` opens. */
+export const getSessionOpening = (exchange: ExchangeId, isoDate: string): string => {
+  const openingDay = isTradingDay(exchange, isoDate)
+    ? isoDate
+    : getNextTradingDay(exchange, isoDate);
+  return `${openingDay}T${EXCHANGES[exchange].openTime}`;
+};
+
+/** Calendar date and wall-clock time of an instant in the exchange's time zone. */
+export const getExchangeDateTime = (
+  exchange: ExchangeId,
+  instant: Date = new Date(),
+): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: EXCHANGES[exchange].timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find((entry) => entry.type === type)?.value ?? '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+};
+
+export type CalendarSpanPeriod = 'week' | 'month' | 'quarter';
+
+export interface CalendarSpan {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Calendar week (Monday to Sunday), month or quarter containing `isoDate`.
+ */
+export const getCalendarSpan = (period: CalendarSpanPeriod, isoDate: string): CalendarSpan => {
+  if (period === 'week') {
+    const monday = addCalendarDays(isoDate, -((getIsoWeekday(isoDate) + 6) % 7));
+    return { startDate: monday, endDate: addCalendarDays(monday, 6) };
+  }
+
+  const date = fromIsoDate(isoDate);
+  const year = date.getUTCFullYear();
+  const firstMonth =
+    period === 'quarter' ? date.getUTCMonth() - (date.getUTCMonth() % 3) : date.getUTCMonth();
+  const monthCount = period === 'quarter' ? 3 : 1;
+
+  return {
+    startDate: toIsoDate(utcDate(year, firstMonth, 1)),
+    endDate: toIsoDate(utcDate(year, firstMonth + monthCount, 0)),
+  };
+};
+
+/** Last trading day of the span containing `isoDate`, or null if the exchange is shut throughout. */
+export const getLastTradingDayOfSpan = (
+  exchange: ExchangeId,
+  period: CalendarSpanPeriod,
+  isoDate: string,
+): string | null => {
+  const span = getCalendarSpan(period, isoDate);
+  const lastTradingDay = getTradingDayOnOrBefore(exchange, span.endDate);
+
+  return lastTradingDay >= span.startDate ? lastTradingDay : null;
+};
+
+/**
+ * Last trading day of the Monday–Friday week containing `isoDate` (weekends belong to the
+ * week that precedes them), or null if the exchange is closed all week.
+ */
+export const getLastTradingDayOfWeek = (exchange: ExchangeId, isoDate: string): string | null =>
+  getLastTradingDayOfSpan(exchange, 'week', isoDate);
+
+/**
+ * Moves `count` trading days forward (or backward when negative) from `isoDate`.
+ */
+export const addTradingDays = (exchange: ExchangeId, isoDate: string, count: number): string => {
+  let result = isoDate;
+
+  for (let step = 0; step < Math.abs(count); step += 1) {
+    result =
+      count > 0 ? getNextTradingDay(exchange, result) : getPreviousTradingDay(exchange, result);
+  }
+
+  return result;
+};
+
+export interface TargetDateOptions {
+  exchange?: ExchangeId;
+  /** Required for `custom` predictions: how many trading days ahead the target lies. */
+  horizonDays?: number;
+}
+
+/**
+ * Picks the target date for a new prediction in exchange time:
+ * - `day`: the next trading day;
+ * - `week`, `month`, `quarter`: the last trading day of the earliest such span whose first
+ *   session has not opened yet, so the whole span is still ahead (a Good Friday week targets
+ *   the Thursday);
+ * - `custom`: `horizonDays` trading days after today.
+ */
+export const getPredictionTargetDate = (
+  period: PredictionPeriod,
+  referenceInstant: Date = new Date(),
+  options: TargetDateOptions = {},
+): string => {
+  const exchange = options.exchange ?? DEFAULT_EXCHANGE;
+  const { date: today, time } = getExchangeDateTime(exchange, referenceInstant);
+
+  if (period === 'custom') {
+    const { horizonDays } = options;
+
+    if (typeof horizonDays !== 'number' || !Number.isInteger(horizonDays) || horizonDays < 1) {
+      throw new RangeError('Custom predictions need a whole number of horizon days.');
+    }
+
+    return addTradingDays(exchange, today, horizonDays);
+  }
+
+  if (period === 'day') {
+    return getNextTradingDay(exchange, today);
+  }
+
+  const now = `${today}T${time}`;
+  let anchor = today;
+
+  for (;;) {
+    const span = getCalendarSpan(period, anchor);
+    const lastTradingDay = getLastTradingDayOfSpan(exchange, period, anchor);
+
+    if (lastTradingDay && getSessionOpening(exchange, span.startDate) > now) {
+      return lastTradingDay;
+    }
+
+    anchor = addCalendarDays(span.endDate, 1);
+  }
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const getMarketStatus = (
+  exchange: ExchangeId = DEFAULT_EXCHANGE,
+  instant: Date = new Date(),
+): MarketStatus => {
+  const { date, time } = getExchangeDateTime(exchange, instant);
+  const session = getTradingSession(exchange, date);
+  const status: MarketStatus = {
+    exchange,
+    state: 'non-trading',
+    exchangeDate: date,
+    exchangeTime: time,
+    session,
+    nextSessionDate: getNextTradingDay(exchange, date),
+  };
+
+  if (!session) {
+    const holidayName = getHolidayName(exchange, date);
+
+    if (holidayName) {
+      status.holidayName = holidayName;
+    }
+
+    return status;
+  }
+
+  const minutes = toMinutes(time);
+
+  if (minutes < toMinutes(session.openTime)) {
+    status.state = 'pre-open';
+    status.nextSessionDate = date;
+  } else if (minutes < toMinutes(session.closeTime)) {
+    status.state = 'open';
+    status.nextSessionDate = date;
+  } else {
+    status.state = 'closed';
+  }
+
+  return status;
+};